@@ -4,6 +4,11 @@ import * as admin from 'firebase-admin';
 const db = admin.firestore();
 const auth = admin.auth();
 
+// Admins are marked with a role custom claim set from the Admin SDK.
+export function is_admin(context: functions.https.CallableContext): boolean {
+  return context.auth?.token.role === 'admin';
+}
+
 export const on_user_created = functions.auth.user().onCreate(async (user) => {
   await db.collection('users').doc(user.uid).set({
     email: user.email,
@@ -67,6 +72,10 @@ export const update_availability = functions.https.onCall(
     try {
       await db.collection('users').doc(context.auth.uid).update({
         is_available: data.is_available,
+        ...(data.is_available && {
+          last_seen_at: admin.firestore.FieldValue.serverTimestamp(),
+          presence_expired_at: admin.firestore.FieldValue.delete(),
+        }),
         updated_at: admin.firestore.FieldValue.serverTimestamp(),
       });
 
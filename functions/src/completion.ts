@@ -0,0 +1,249 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { apply_transition, RequestStatus, SYSTEM_ACTOR, TransitionActor } from './request_lifecycle';
+import { void_request_payment } from './stripe_functions';
+import { apply_guarantee, evaluate_guarantee } from './guarantee';
+import { notify_user } from './notify';
+import { is_admin } from './auth';
+
+const db = admin.firestore();
+
+export type SupportCaseResolution = 'charge' | 'release';
+
+// Marks the job completed, records what the guarantee policy says the
+// customer owes and settles the payment to match. Returns false if the
+// request had already moved on, e.g. a double click racing the timeout.
+async function complete_request(
+  request_id: string,
+  from: RequestStatus,
+  actor: TransitionActor,
+  reason: string
+): Promise<boolean> {
+  const request_ref = db.collection('requests').doc(request_id);
+
+  const completed = await db.runTransaction(async (transaction) => {
+    const request_doc = await transaction.get(request_ref);
+    const current_data = request_doc.data();
+
+    if (!current_data || current_data.status !== from) {
+      return null;
+    }
+
+    const decision = evaluate_guarantee(current_data);
+
+    apply_transition(transaction, request_ref, current_data, 'completed', actor, reason, {
+      confirmed_at: admin.firestore.FieldValue.serverTimestamp(),
+      confirmed_by: actor.role,
+      guarantee: { ...decision, decided_at: admin.firestore.FieldValue.serverTimestamp() },
+    });
+
+    return { request_data: current_data, decision };
+  });
+
+  if (!completed) {
+    return false;
+  }
+
+  // The job is completed either way; an authorization that failed to
+  // capture here is picked up by refresh_expiring_authorizations
+  try {
+    await apply_guarantee(request_id, completed.request_data, completed.decision);
+  } catch (error) {
+    console.error(`Error settling payment for completed request ${request_id}:`, error);
+  }
+
+  return true;
+}
+
+export const confirm_completion = functions.https.onCall(
+  async (data: { request_id: string; agree: boolean; reason?: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { request_id, agree, reason } = data;
+
+    if (!request_id || typeof agree !== 'boolean') {
+      throw new functions.https.HttpsError('invalid-argument', 'Request ID and a response are required');
+    }
+
+    const uid = context.auth.uid;
+    const request_ref = db.collection('requests').doc(request_id);
+    const request_doc = await request_ref.get();
+    const request_data = request_doc.data();
+
+    if (!request_data) {
+      throw new functions.https.HttpsError('not-found', 'Request not found');
+    }
+
+    if (request_data.customer_id !== uid) {
+      throw new functions.https.HttpsError('permission-denied', 'Only the customer can confirm the outcome');
+    }
+
+    if (request_data.status !== 'awaiting_confirmation') {
+      throw new functions.https.HttpsError('failed-precondition', 'This request is not waiting for confirmation');
+    }
+
+    const actor: TransitionActor = { id: uid, role: 'customer' };
+
+    try {
+      if (agree) {
+        await complete_request(request_id, 'awaiting_confirmation', actor, 'Customer confirmed the outcome');
+
+        return { success: true, status: 'completed' };
+      }
+
+      const case_ref = db.collection('support_cases').doc();
+
+      await db.runTransaction(async (transaction) => {
+        const current_doc = await transaction.get(request_ref);
+        const current_data = current_doc.data()!;
+
+        apply_transition(transaction, request_ref, current_data, 'disputed', actor, 'Customer disputed the outcome', {
+          support_case_id: case_ref.id,
+          dispute_reason: reason || '',
+          disputed_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        transaction.set(case_ref, {
+          type: 'completion_dispute',
+          request_id,
+          customer_id: current_data.customer_id,
+          helper_id: current_data.helper_id,
+          session_id: current_data.session_id || null,
+          outcome: current_data.outcome || null,
+          reason: reason || '',
+          status: 'open',
+          created_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+
+      await notify_user(request_data.helper_id, 'completion_disputed', {
+        request_id,
+        support_case_id: case_ref.id,
+        message: 'The customer disputed the outcome of your session. Our support team will review it.',
+      });
+
+      return { success: true, status: 'disputed', support_case_id: case_ref.id };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Error confirming completion:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to record your response');
+    }
+  }
+);
+
+// Support closes a completion dispute by either charging the customer as
+// normal or releasing their card hold.
+export const resolve_support_case = functions.https.onCall(
+  async (data: { case_id: string; resolution: SupportCaseResolution; notes?: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (!is_admin(context)) {
+      throw new functions.https.HttpsError('permission-denied', 'Only admins can resolve support cases');
+    }
+
+    const { case_id, resolution, notes } = data;
+
+    if (!case_id || (resolution !== 'charge' && resolution !== 'release')) {
+      throw new functions.https.HttpsError('invalid-argument', 'Case ID and a valid resolution are required');
+    }
+
+    const case_ref = db.collection('support_cases').doc(case_id);
+    const case_doc = await case_ref.get();
+    const case_data = case_doc.data();
+
+    if (!case_data) {
+      throw new functions.https.HttpsError('not-found', 'Support case not found');
+    }
+
+    if (case_data.status !== 'open') {
+      throw new functions.https.HttpsError('failed-precondition', 'This support case is already resolved');
+    }
+
+    const request_id: string = case_data.request_id;
+    const request_ref = db.collection('requests').doc(request_id);
+    const actor: TransitionActor = { id: context.auth.uid, role: 'admin' };
+
+    try {
+      if (resolution === 'charge') {
+        const completed = await complete_request(request_id, 'disputed', actor, 'Support resolved the dispute');
+
+        if (!completed) {
+          throw new functions.https.HttpsError('failed-precondition', 'The request is no longer disputed');
+        }
+      } else {
+        const request_data = await db.runTransaction(async (transaction) => {
+          const request_doc = await transaction.get(request_ref);
+          const current_data = request_doc.data();
+
+          if (!current_data || current_data.status !== 'disputed') {
+            throw new functions.https.HttpsError('failed-precondition', 'The request is no longer disputed');
+          }
+
+          apply_transition(transaction, request_ref, current_data, 'cancelled', actor, 'Support upheld the dispute', {
+            cancelled_at: admin.firestore.FieldValue.serverTimestamp(),
+            cancellation_reason: 'Dispute upheld by support',
+          });
+
+          return current_data;
+        });
+
+        if (request_data.payment_intent_id && request_data.payment_status === 'authorized') {
+          await void_request_payment(request_id, request_data.payment_intent_id);
+        }
+      }
+
+      await case_ref.update({
+        status: 'resolved',
+        resolution,
+        notes: notes || '',
+        resolved_by: context.auth.uid,
+        resolved_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      const message = resolution === 'charge'
+        ? 'Support reviewed the dispute and the session has been completed.'
+        : 'Support reviewed the dispute and the card hold has been released.';
+
+      await notify_user(case_data.customer_id, 'support_case_resolved', { request_id, resolution, message });
+      await notify_user(case_data.helper_id, 'support_case_resolved', { request_id, resolution, message });
+
+      return { success: true, resolution };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Error resolving support case:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to resolve support case');
+    }
+  }
+);
+
+// Completes jobs the customer neither confirmed nor disputed in time.
+export const auto_confirm_completions = functions.pubsub
+  .schedule('every 15 minutes')
+  .onRun(async () => {
+    const overdue_query = await db
+      .collection('requests')
+      .where('status', '==', 'awaiting_confirmation')
+      .where('confirmation_due_at', '<=', admin.firestore.Timestamp.now())
+      .get();
+
+    for (const request_doc of overdue_query.docs) {
+      try {
+        await complete_request(
+          request_doc.id,
+          'awaiting_confirmation',
+          SYSTEM_ACTOR,
+          'Confirmation window elapsed'
+        );
+      } catch (error) {
+        console.error(`Error auto-confirming request ${request_doc.id}:`, error);
+      }
+    }
+  });
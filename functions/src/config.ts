@@ -4,6 +4,9 @@ interface AppConfig {
   stripe: {
     secret_key: string;
     webhook_secret: string;
+    // Signing secret of the Connect endpoint, which receives events from
+    // helpers' connected accounts such as account.updated
+    connect_webhook_secret: string;
   };
   zoho: {
     client_id: string;
@@ -11,6 +14,11 @@ interface AppConfig {
     refresh_token: string;
     org_id: string;
   };
+  video: {
+    // Which backend in video_provider.ts hosts sessions: 'zoho', 'mock' or
+    // 'webrtc'. Sessions fall back to 'webrtc' if it is unavailable.
+    provider: string;
+  };
   twilio: {
     account_sid: string;
     auth_token: string;
@@ -19,6 +27,66 @@ interface AppConfig {
   app: {
     base_url: string;
   };
+  cancellation: {
+    // Charged when the customer cancels after a helper has claimed the job
+    fee_cents: number;
+  };
+  claims: {
+    // How long a claimed job waits for the customer to pay before release
+    hold_minutes: number;
+  };
+  dispatch: {
+    // Helpers offered the job per targeted wave
+    wave_size: number;
+    offer_timeout_seconds: number;
+    // Targeted waves before the job is broadcast to every available helper
+    max_targeted_waves: number;
+    weights: {
+      specialty: number;
+      load: number;
+      rating: number;
+      recency: number;
+    };
+  };
+  presence: {
+    // Helpers whose app has been silent this long are marked unavailable
+    timeout_seconds: number;
+  };
+  sessions: {
+    // Minutes covered by the quoted price; must match the client's
+    // app_config.session.max_duration_minutes
+    included_minutes: number;
+    // Minutes added by each extension the customer approves
+    extension_minutes: number;
+    // Charged per minute of extension time actually used
+    extension_rate_cents: number;
+    max_extension_minutes: number;
+  };
+  payouts: {
+    // Share of each session the platform keeps; the rest goes to the helper
+    platform_fee_percent: number;
+  };
+  completion: {
+    // How long the customer has to confirm or dispute an outcome before
+    // the job is completed and charged automatically
+    confirmation_hours: number;
+  };
+  guarantee: {
+    // What an unresolved or escalated outcome does to the payment: 'charge',
+    // 'partial', 'void' or 'credit' (see guarantee.ts)
+    unresolved_action: string;
+    escalated_action: string;
+    // Share of the price charged by a 'partial' action
+    partial_charge_percent: number;
+    // Account credit granted by a 'credit' action, for a follow-up session
+    follow_up_credit_cents: number;
+  };
+  email: {
+    // Which transport in email.ts delivers mail: 'log' or 'sendgrid'
+    transport: string;
+    from_address: string;
+    sendgrid_api_key: string;
+  };
 }
 
 function get_config(): AppConfig {
@@ -28,6 +96,8 @@ function get_config(): AppConfig {
     stripe: {
       secret_key: config.stripe?.secret_key || process.env.STRIPE_SECRET_KEY || '',
       webhook_secret: config.stripe?.webhook_secret || process.env.STRIPE_WEBHOOK_SECRET || '',
+      connect_webhook_secret:
+        config.stripe?.connect_webhook_secret || process.env.STRIPE_CONNECT_WEBHOOK_SECRET || '',
     },
     zoho: {
       client_id: config.zoho?.client_id || process.env.ZOHO_CLIENT_ID || '',
@@ -35,6 +105,9 @@ function get_config(): AppConfig {
       refresh_token: config.zoho?.refresh_token || process.env.ZOHO_REFRESH_TOKEN || '',
       org_id: config.zoho?.org_id || process.env.ZOHO_ORG_ID || '',
     },
+    video: {
+      provider: config.video?.provider || process.env.VIDEO_PROVIDER || 'zoho',
+    },
     twilio: {
       account_sid: config.twilio?.account_sid || process.env.TWILIO_ACCOUNT_SID || '',
       auth_token: config.twilio?.auth_token || process.env.TWILIO_AUTH_TOKEN || '',
@@ -43,6 +116,49 @@ function get_config(): AppConfig {
     app: {
       base_url: config.app?.base_url || process.env.APP_BASE_URL || 'http://localhost:5173',
     },
+    cancellation: {
+      fee_cents: Number(config.cancellation?.fee_cents || process.env.CANCELLATION_FEE_CENTS || 0),
+    },
+    claims: {
+      hold_minutes: Number(config.claims?.hold_minutes || process.env.CLAIM_HOLD_MINUTES || 15),
+    },
+    dispatch: {
+      wave_size: Number(config.dispatch?.wave_size || process.env.DISPATCH_WAVE_SIZE || 3),
+      offer_timeout_seconds: Number(config.dispatch?.offer_timeout_seconds || process.env.DISPATCH_OFFER_TIMEOUT_SECONDS || 120),
+      max_targeted_waves: Number(config.dispatch?.max_targeted_waves || process.env.DISPATCH_MAX_TARGETED_WAVES || 2),
+      weights: {
+        specialty: Number(config.dispatch?.weight_specialty || process.env.DISPATCH_WEIGHT_SPECIALTY || 4),
+        load: Number(config.dispatch?.weight_load || process.env.DISPATCH_WEIGHT_LOAD || 2),
+        rating: Number(config.dispatch?.weight_rating || process.env.DISPATCH_WEIGHT_RATING || 2),
+        recency: Number(config.dispatch?.weight_recency || process.env.DISPATCH_WEIGHT_RECENCY || 1),
+      },
+    },
+    presence: {
+      timeout_seconds: Number(config.presence?.timeout_seconds || process.env.PRESENCE_TIMEOUT_SECONDS || 120),
+    },
+    sessions: {
+      included_minutes: Number(config.sessions?.included_minutes || process.env.SESSION_INCLUDED_MINUTES || 60),
+      extension_minutes: Number(config.sessions?.extension_minutes || process.env.SESSION_EXTENSION_MINUTES || 15),
+      extension_rate_cents: Number(config.sessions?.extension_rate_cents || process.env.SESSION_EXTENSION_RATE_CENTS || 100),
+      max_extension_minutes: Number(config.sessions?.max_extension_minutes || process.env.SESSION_MAX_EXTENSION_MINUTES || 60),
+    },
+    payouts: {
+      platform_fee_percent: Number(config.payouts?.platform_fee_percent || process.env.PLATFORM_FEE_PERCENT || 20),
+    },
+    completion: {
+      confirmation_hours: Number(config.completion?.confirmation_hours || process.env.COMPLETION_CONFIRMATION_HOURS || 24),
+    },
+    guarantee: {
+      unresolved_action: config.guarantee?.unresolved_action || process.env.GUARANTEE_UNRESOLVED_ACTION || 'void',
+      escalated_action: config.guarantee?.escalated_action || process.env.GUARANTEE_ESCALATED_ACTION || 'partial',
+      partial_charge_percent: Number(config.guarantee?.partial_charge_percent || process.env.GUARANTEE_PARTIAL_CHARGE_PERCENT || 50),
+      follow_up_credit_cents: Number(config.guarantee?.follow_up_credit_cents || process.env.GUARANTEE_FOLLOW_UP_CREDIT_CENTS || 2000),
+    },
+    email: {
+      transport: config.email?.transport || process.env.EMAIL_TRANSPORT || 'log',
+      from_address: config.email?.from_address || process.env.EMAIL_FROM_ADDRESS || 'receipts@homeproassist.com',
+      sendgrid_api_key: config.email?.sendgrid_api_key || process.env.SENDGRID_API_KEY || '',
+    },
   };
 }
 
@@ -0,0 +1,317 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { app_config } from './config';
+import { is_presence_fresh } from './presence';
+
+const db = admin.firestore();
+
+const ACTIVE_STATUSES = ['claimed', 'payment_pending', 'in_session'];
+
+// Unrated helpers score as if they had this rating so they still get offers
+const DEFAULT_RATING = 4;
+
+// Ratings are blended with DEFAULT_RATING as if the helper had this many
+// extra reviews, so one early five-star review does not top the rankings
+const RATING_PRIOR_REVIEWS = 5;
+
+// A helper idle for this long gets the full recency score
+const RECENCY_WINDOW_HOURS = 24;
+
+// Firestore's limit on writes per batch
+const MAX_BATCH_WRITES = 500;
+
+export type DispatchMode = 'targeted' | 'broadcast';
+
+interface ScoreBreakdown {
+  specialty: number;
+  load: number;
+  rating: number;
+  recency: number;
+}
+
+interface ScoredHelper {
+  helper_id: string;
+  score: number;
+  breakdown: ScoreBreakdown;
+}
+
+// Each factor is normalised to 0..1 and weighted from config.
+export function score_helper(
+  helper_data: admin.firestore.DocumentData,
+  category: string,
+  active_jobs: number,
+  now_ms: number
+): { score: number; breakdown: ScoreBreakdown } {
+  const { weights } = app_config.dispatch;
+
+  const specialty = (helper_data.specialties || []).includes(category) ? 1 : 0;
+  const load = 1 / (1 + active_jobs);
+  const rating_count: number = helper_data.rating_count || 0;
+  const rating_average: number = helper_data.rating_average ?? DEFAULT_RATING;
+  const rating = (rating_average * rating_count + DEFAULT_RATING * RATING_PRIOR_REVIEWS) /
+    (rating_count + RATING_PRIOR_REVIEWS) / 5;
+
+  const last_job_ms = helper_data.last_job_at ? helper_data.last_job_at.toMillis() : null;
+  const idle_hours = last_job_ms ? (now_ms - last_job_ms) / (60 * 60 * 1000) : RECENCY_WINDOW_HOURS;
+  const recency = Math.min(idle_hours / RECENCY_WINDOW_HOURS, 1);
+
+  const breakdown = { specialty, load, rating, recency };
+  const score =
+    weights.specialty * specialty +
+    weights.load * load +
+    weights.rating * rating +
+    weights.recency * recency;
+
+  return { score, breakdown };
+}
+
+async function rank_available_helpers(
+  category: string,
+  exclude_ids: string[]
+): Promise<ScoredHelper[]> {
+  const [helpers_query, active_query] = await Promise.all([
+    db.collection('users')
+      .where('role', '==', 'helper')
+      .where('is_available', '==', true)
+      .get(),
+    db.collection('requests')
+      .where('status', 'in', ACTIVE_STATUSES)
+      .get(),
+  ]);
+
+  const active_counts = new Map<string, number>();
+
+  active_query.docs.forEach((request_doc) => {
+    const helper_id = request_doc.data().helper_id;
+    if (helper_id) {
+      active_counts.set(helper_id, (active_counts.get(helper_id) || 0) + 1);
+    }
+  });
+
+  const now_ms = Date.now();
+
+  return helpers_query.docs
+    .filter((helper_doc) => !exclude_ids.includes(helper_doc.id))
+    // claim_request turns these helpers away, so offering them the job wastes a wave
+    .filter((helper_doc) => helper_doc.data().payouts_enabled === true)
+    .filter((helper_doc) => is_presence_fresh(helper_doc.data(), now_ms))
+    .map((helper_doc) => ({
+      helper_id: helper_doc.id,
+      ...score_helper(helper_doc.data(), category, active_counts.get(helper_doc.id) || 0, now_ms),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Stamps the request's dispatch state, then records an offer per helper and
+// notifies them. Broadcast offers have no deadline.
+async function send_offers(
+  request_ref: admin.firestore.DocumentReference,
+  request_data: admin.firestore.DocumentData,
+  helpers: ScoredHelper[],
+  wave: number,
+  mode: DispatchMode
+): Promise<void> {
+  const expires_at = mode === 'targeted'
+    ? admin.firestore.Timestamp.fromMillis(Date.now() + app_config.dispatch.offer_timeout_seconds * 1000)
+    : null;
+
+  // Only one caller may send a given wave, and only while nobody has claimed
+  // or cancelled the job
+  const is_current = await db.runTransaction(async (transaction) => {
+    const current_data = (await transaction.get(request_ref)).data();
+
+    if (current_data?.status !== 'pending' || (current_data.dispatch?.wave || 0) !== wave - 1) {
+      return false;
+    }
+
+    transaction.update(request_ref, {
+      'dispatch.mode': mode,
+      'dispatch.wave': wave,
+      'dispatch.next_wave_at': expires_at,
+      ...(mode === 'targeted' && helpers.length > 0 && {
+        'dispatch.offered_helper_ids': admin.firestore.FieldValue.arrayUnion(
+          ...helpers.map((helper) => helper.helper_id)
+        ),
+      }),
+    });
+
+    return true;
+  });
+
+  if (!is_current) {
+    console.log(`Dispatch wave ${wave} for ${request_ref.id} skipped: request is no longer waiting on it`);
+    return;
+  }
+
+  // Each helper takes an offer and a notification
+  const helpers_per_batch = MAX_BATCH_WRITES / 2;
+
+  for (let start = 0; start < helpers.length; start += helpers_per_batch) {
+    const batch = db.batch();
+
+    helpers.slice(start, start + helpers_per_batch).forEach((helper) => {
+      batch.set(request_ref.collection('offers').doc(), {
+        helper_id: helper.helper_id,
+        wave,
+        mode,
+        score: helper.score,
+        score_breakdown: helper.breakdown,
+        status: 'offered',
+        offered_at: admin.firestore.FieldValue.serverTimestamp(),
+        expires_at,
+      });
+
+      batch.set(db.collection('notifications').doc(), {
+        user_id: helper.helper_id,
+        type: 'new_request',
+        request_id: request_ref.id,
+        category: request_data.category,
+        description: request_data.description,
+        amount: request_data.amount,
+        offer_expires_at: expires_at,
+        read: false,
+        created_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    await batch.commit();
+  }
+
+  // A claim that landed while the batches were written could not withdraw
+  // offers that did not exist yet
+  const request_doc = await request_ref.get();
+  if (request_doc.data()?.status !== 'pending') {
+    await withdraw_open_offers(request_ref.id);
+  }
+
+  console.log(`Dispatch wave ${wave} (${mode}) for ${request_ref.id}: offered to ${helpers.length} helpers`);
+}
+
+async function run_next_wave(
+  request_ref: admin.firestore.DocumentReference,
+  request_data: admin.firestore.DocumentData
+): Promise<void> {
+  const offered_ids: string[] = request_data.dispatch?.offered_helper_ids || [];
+  const next_wave = (request_data.dispatch?.wave || 0) + 1;
+  const candidates = await rank_available_helpers(request_data.category, offered_ids);
+
+  if (next_wave <= app_config.dispatch.max_targeted_waves && candidates.length > 0) {
+    await send_offers(
+      request_ref,
+      request_data,
+      candidates.slice(0, app_config.dispatch.wave_size),
+      next_wave,
+      'targeted'
+    );
+    return;
+  }
+
+  await send_offers(request_ref, request_data, candidates, next_wave, 'broadcast');
+}
+
+// Starts (or restarts, after a released claim) dispatch for a pending request.
+export async function start_dispatch(request_id: string): Promise<void> {
+  const request_ref = db.collection('requests').doc(request_id);
+  const dispatch = {
+    mode: 'targeted',
+    wave: 0,
+    offered_helper_ids: [],
+    next_wave_at: null,
+    started_at: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  await request_ref.update({ dispatch });
+
+  const request_doc = await request_ref.get();
+  await run_next_wave(request_ref, request_doc.data()!);
+}
+
+// Reads the request's open offers. Must run before any transaction writes.
+export async function get_open_offers(
+  transaction: admin.firestore.Transaction,
+  request_ref: admin.firestore.DocumentReference
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const offers_snapshot = await transaction.get(
+    request_ref.collection('offers').where('status', '==', 'offered')
+  );
+  return offers_snapshot.docs;
+}
+
+// Marks the claiming helper's offer accepted and withdraws the rest.
+export function close_offers(
+  transaction: admin.firestore.Transaction,
+  open_offers: admin.firestore.QueryDocumentSnapshot[],
+  accepted_helper_id: string | null
+): void {
+  open_offers.forEach((offer_doc) => {
+    transaction.update(offer_doc.ref, {
+      status: offer_doc.data().helper_id === accepted_helper_id ? 'accepted' : 'withdrawn',
+      responded_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+export async function withdraw_open_offers(request_id: string): Promise<void> {
+  const request_ref = db.collection('requests').doc(request_id);
+
+  await db.runTransaction(async (transaction) => {
+    const open_offers = await get_open_offers(transaction, request_ref);
+    close_offers(transaction, open_offers, null);
+  });
+}
+
+// Expires the current wave's offers if the request is still pending and the
+// wave is still due. Returns the request as re-read, or null when it was
+// claimed, cancelled or advanced since the due query ran.
+async function expire_due_wave(
+  request_ref: admin.firestore.DocumentReference
+): Promise<admin.firestore.DocumentData | null> {
+  return db.runTransaction(async (transaction) => {
+    const request_data = (await transaction.get(request_ref)).data();
+    const next_wave_at: admin.firestore.Timestamp | null = request_data?.dispatch?.next_wave_at || null;
+
+    if (
+      request_data?.status !== 'pending' ||
+      request_data.dispatch?.mode !== 'targeted' ||
+      !next_wave_at ||
+      next_wave_at.toMillis() > Date.now()
+    ) {
+      return null;
+    }
+
+    const open_offers = await get_open_offers(transaction, request_ref);
+    open_offers.forEach((offer_doc) => {
+      transaction.update(offer_doc.ref, {
+        status: 'expired',
+        responded_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    return request_data;
+  });
+}
+
+// Expires targeted offers nobody accepted and moves on to the next wave,
+// eventually broadcasting the job to every available helper.
+export const advance_dispatch = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const due_query = await db
+      .collection('requests')
+      .where('status', '==', 'pending')
+      .where('dispatch.mode', '==', 'targeted')
+      .where('dispatch.next_wave_at', '<=', admin.firestore.Timestamp.now())
+      .get();
+
+    for (const request_doc of due_query.docs) {
+      try {
+        const request_data = await expire_due_wave(request_doc.ref);
+
+        if (request_data) {
+          await run_next_wave(request_doc.ref, request_data);
+        }
+      } catch (error) {
+        console.error(`Error advancing dispatch for ${request_doc.id}:`, error);
+      }
+    }
+  });
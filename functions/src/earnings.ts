@@ -0,0 +1,145 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { compute_helper_share } from './stripe_connect';
+
+const db = admin.firestore();
+
+interface EarningsTotals {
+  pending_amount: number;
+  // Includes tips
+  earned_amount: number;
+  reversed_amount: number;
+  tips_amount: number;
+  jobs_count: number;
+}
+
+const ZERO_TOTALS: EarningsTotals = {
+  pending_amount: 0,
+  earned_amount: 0,
+  reversed_amount: 0,
+  tips_amount: 0,
+  jobs_count: 0,
+};
+
+// What a single payments document adds to its helper's earnings. Held
+// authorizations count as pending at the helper's expected share; payouts
+// count once transferred, less anything clawed back by refunds. Tips go
+// straight to the helper once charged.
+function contribution(payment: admin.firestore.DocumentData | undefined): EarningsTotals {
+  if (!payment?.helper_id) {
+    return ZERO_TOTALS;
+  }
+
+  if (payment.type === 'charge' && payment.status === 'authorized') {
+    const gross_amount: number = payment.gross_amount ?? payment.amount;
+    return { ...ZERO_TOTALS, pending_amount: compute_helper_share(gross_amount).helper_share };
+  }
+
+  if (payment.type === 'payout' && payment.status === 'held') {
+    return { ...ZERO_TOTALS, pending_amount: payment.amount };
+  }
+
+  if (payment.type === 'payout' && payment.status === 'transferred') {
+    return {
+      ...ZERO_TOTALS,
+      earned_amount: payment.amount,
+      reversed_amount: payment.reversed_amount || 0,
+      jobs_count: 1,
+    };
+  }
+
+  if (payment.type === 'tip' && payment.status === 'succeeded') {
+    return { ...ZERO_TOTALS, earned_amount: payment.amount, tips_amount: payment.amount };
+  }
+
+  return ZERO_TOTALS;
+}
+
+function utc_date(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+// ISO-8601 weeks start on Monday; the week belongs to the year its
+// Thursday falls in.
+function period_keys(at: Date): { week: string; week_start: Date; month: string; month_start: Date } {
+  const day_index = (at.getUTCDay() + 6) % 7;
+  const week_start = utc_date(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() - day_index);
+  const thursday = utc_date(week_start.getUTCFullYear(), week_start.getUTCMonth(), week_start.getUTCDate() + 3);
+  const iso_year = thursday.getUTCFullYear();
+  const week_number = Math.floor((thursday.getTime() - utc_date(iso_year, 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000)) + 1;
+  const month_number = at.getUTCMonth() + 1;
+
+  return {
+    week: `${iso_year}-W${String(week_number).padStart(2, '0')}`,
+    week_start,
+    month: `${at.getUTCFullYear()}-${String(month_number).padStart(2, '0')}`,
+    month_start: utc_date(at.getUTCFullYear(), at.getUTCMonth(), 1),
+  };
+}
+
+// Keeps helper_earnings/{helper_id} and its weekly and monthly periods in
+// step with payments so the earnings page never scans the whole history.
+export const on_payment_written = functions.firestore
+  .document('payments/{payment_id}')
+  .onWrite(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    const helper_id: string | undefined = after?.helper_id || before?.helper_id;
+
+    if (!helper_id) {
+      return;
+    }
+
+    const before_totals = contribution(before);
+    const after_totals = contribution(after);
+    const keys = Object.keys(ZERO_TOTALS) as (keyof EarningsTotals)[];
+    const delta = keys.filter((key) => after_totals[key] !== before_totals[key]);
+
+    if (delta.length === 0) {
+      return;
+    }
+
+    const increments: admin.firestore.DocumentData = {};
+    delta.forEach((key) => {
+      increments[key] = admin.firestore.FieldValue.increment(after_totals[key] - before_totals[key]);
+    });
+
+    const created_at: admin.firestore.Timestamp | undefined = (after || before)?.created_at;
+    const periods = period_keys(created_at ? created_at.toDate() : new Date());
+    const earnings_ref = db.collection('helper_earnings').doc(helper_id);
+    const event_ref = db.collection('earnings_events').doc(context.eventId);
+
+    // Firestore triggers are delivered at least once
+    await db.runTransaction(async (transaction) => {
+      const event_doc = await transaction.get(event_ref);
+
+      if (event_doc.exists) {
+        return;
+      }
+
+      transaction.set(earnings_ref, {
+        ...increments,
+        helper_id,
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      }, { merge: true });
+
+      transaction.set(earnings_ref.collection('periods').doc(`week_${periods.week}`), {
+        ...increments,
+        period_type: 'week',
+        period_key: periods.week,
+        period_start: admin.firestore.Timestamp.fromDate(periods.week_start),
+      }, { merge: true });
+
+      transaction.set(earnings_ref.collection('periods').doc(`month_${periods.month}`), {
+        ...increments,
+        period_type: 'month',
+        period_key: periods.month,
+        period_start: admin.firestore.Timestamp.fromDate(periods.month_start),
+      }, { merge: true });
+
+      transaction.set(event_ref, {
+        payment_id: context.params.payment_id,
+        created_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+  });
@@ -0,0 +1,73 @@
+import axios from 'axios';
+import { app_config } from './config';
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  content_type: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+// Anything that can deliver a message. Pick one with the email.transport
+// config value; add new providers to EMAIL_TRANSPORTS.
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Default for local development and the emulators: nothing leaves the box
+const log_transport: EmailTransport = {
+  async send(message) {
+    const attachments = (message.attachments || []).map((a) => a.filename).join(', ');
+    console.log(`[email] to=${message.to} subject="${message.subject}" attachments=[${attachments}]`);
+  },
+};
+
+const sendgrid_transport: EmailTransport = {
+  async send(message) {
+    await axios.post(
+      'https://api.sendgrid.com/v3/mail/send',
+      {
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: { email: app_config.email.from_address },
+        subject: message.subject,
+        content: [{ type: 'text/plain', value: message.text }],
+        attachments: (message.attachments || []).map((attachment) => ({
+          filename: attachment.filename,
+          type: attachment.content_type,
+          content: attachment.content.toString('base64'),
+          disposition: 'attachment',
+        })),
+      },
+      {
+        headers: { Authorization: `Bearer ${app_config.email.sendgrid_api_key}` },
+      }
+    );
+  },
+};
+
+const EMAIL_TRANSPORTS: Record<string, EmailTransport> = {
+  log: log_transport,
+  sendgrid: sendgrid_transport,
+};
+
+export function get_email_transport(): EmailTransport {
+  const name = app_config.email.transport;
+
+  // Own keys only, so a name like 'constructor' is not taken for a transport
+  if (!Object.prototype.hasOwnProperty.call(EMAIL_TRANSPORTS, name)) {
+    console.error(`Unknown email transport "${name}", falling back to log`);
+    return log_transport;
+  }
+
+  return EMAIL_TRANSPORTS[name];
+}
+
+export async function send_email(message: EmailMessage): Promise<void> {
+  await get_email_transport().send(message);
+}
@@ -0,0 +1,113 @@
+import * as admin from 'firebase-admin';
+import { app_config } from './config';
+import { grant_user_credit, MIN_CHARGE_CENTS } from './promotions';
+import { capture_request_payment, refund_request_payment, void_request_payment } from './stripe_functions';
+import { compute_helper_share } from './stripe_connect';
+
+const db = admin.firestore();
+
+// charge: the full amount; partial: a share of it; void: nothing;
+// credit: the full amount plus account credit towards a follow-up session
+export type GuaranteeAction = 'charge' | 'partial' | 'void' | 'credit';
+
+const GUARANTEE_ACTIONS: GuaranteeAction[] = ['charge', 'partial', 'void', 'credit'];
+
+export interface GuaranteeDecision {
+  outcome: string;
+  action: GuaranteeAction;
+  // What the session came to before the guarantee was applied
+  base_amount: number;
+  charge_amount: number;
+  credit_amount: number;
+  // The helper's expected cut of charge_amount
+  helper_share: number;
+}
+
+function action_for_outcome(outcome: string | undefined): GuaranteeAction {
+  const configured = outcome === 'unresolved'
+    ? app_config.guarantee.unresolved_action
+    : outcome === 'escalated'
+      ? app_config.guarantee.escalated_action
+      : 'charge';
+
+  if (!GUARANTEE_ACTIONS.includes(configured as GuaranteeAction)) {
+    console.error(`Unknown guarantee action "${configured}" for ${outcome}, charging in full`);
+    return 'charge';
+  }
+
+  return configured as GuaranteeAction;
+}
+
+// Decides what the customer pays for a completed job. Pure, so it can run
+// inside the completion transaction and be stored with the new status.
+export function evaluate_guarantee(request_data: admin.firestore.DocumentData): GuaranteeDecision {
+  const outcome: string = request_data.outcome || 'resolved';
+  const base_amount: number = request_data.final_amount ?? request_data.amount_due ?? request_data.amount;
+  let action = action_for_outcome(outcome);
+  let charge_amount = base_amount;
+  let credit_amount = 0;
+
+  if (action === 'partial') {
+    charge_amount = Math.round((base_amount * app_config.guarantee.partial_charge_percent) / 100);
+
+    // Stripe cannot capture less than its minimum charge
+    if (charge_amount < MIN_CHARGE_CENTS) {
+      action = 'void';
+    }
+  }
+
+  if (action === 'void') {
+    charge_amount = 0;
+  }
+
+  if (action === 'credit') {
+    credit_amount = app_config.guarantee.follow_up_credit_cents;
+  }
+
+  // Promo and credit discounts are platform-funded, so the helper's cut is
+  // scaled from the undiscounted price
+  const discounts: number = (request_data.promo_discount || 0) + (request_data.credit_applied || 0);
+  const helper_share = charge_amount > 0
+    ? Math.min(charge_amount, compute_helper_share(charge_amount + discounts).helper_share)
+    : 0;
+
+  return { outcome, action, base_amount, charge_amount, credit_amount, helper_share };
+}
+
+// Carries out a decision against the request's payment: captures or voids
+// a held payment, or refunds the difference if it was already captured.
+export async function apply_guarantee(
+  request_id: string,
+  request_data: admin.firestore.DocumentData,
+  decision: GuaranteeDecision
+): Promise<void> {
+  const request_ref = db.collection('requests').doc(request_id);
+  const payment_intent_id: string | undefined = request_data.payment_intent_id;
+  let refund_amount = 0;
+
+  if (payment_intent_id && request_data.payment_status === 'authorized') {
+    if (decision.charge_amount > 0) {
+      await capture_request_payment(request_id, payment_intent_id, decision.charge_amount);
+    } else {
+      await void_request_payment(request_id, payment_intent_id);
+    }
+  } else if (payment_intent_id && request_data.payment_status === 'captured' && decision.charge_amount < decision.base_amount) {
+    // The hold was captured before the job was confirmed, e.g. because it
+    // was about to expire
+    refund_amount = await refund_request_payment(
+      request_id,
+      'unresolved',
+      'system',
+      decision.base_amount - decision.charge_amount
+    );
+  }
+
+  if (decision.credit_amount > 0) {
+    await grant_user_credit(request_data.customer_id, decision.credit_amount, 'guarantee_follow_up', 'system');
+  }
+
+  await request_ref.update({
+    'guarantee.refund_amount': refund_amount,
+    'guarantee.applied_at': admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
@@ -2,21 +2,67 @@ import * as admin from 'firebase-admin';
 
 admin.initializeApp();
 
-export { create_zoho_session, end_zoho_session } from './zoho_lens';
+export { get_video_participant_url } from './video_sessions';
+export { sync_video_status, sync_video_sessions } from './video_sync';
 
 export {
   create_payment_intent,
-  capture_payment,
-  cancel_payment,
+  refund_payment,
+  create_setup_intent,
+  list_payment_methods,
+  detach_payment_method,
+  refresh_expiring_authorizations,
   stripe_webhook,
+  stripe_connect_webhook,
 } from './stripe_functions';
 
+export {
+  create_connect_onboarding_link,
+  get_connect_status,
+  create_connect_dashboard_link,
+} from './stripe_connect';
+
+export { on_payment_written } from './earnings';
+
+export { submit_review, moderate_review, on_review_written } from './reviews';
+
+export { create_tip } from './tips';
+
 export {
   on_request_created,
   on_request_claimed,
   send_session_invite,
 } from './notifications';
 
+export {
+  start_session,
+  end_session,
+  request_extension,
+  respond_to_extension,
+  enforce_session_limits,
+} from './sessions';
+
+export { get_quote } from './pricing';
+
+export { validate_promo_code, grant_credit } from './promotions';
+
+export { advance_dispatch } from './dispatch';
+
+export { expire_stale_presence } from './presence';
+
+export {
+  claim_request,
+  transition_request,
+  cancel_request,
+  release_expired_claims,
+} from './requests';
+
+export {
+  confirm_completion,
+  resolve_support_case,
+  auto_confirm_completions,
+} from './completion';
+
 export {
   on_user_created,
   set_user_role,
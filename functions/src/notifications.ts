@@ -2,6 +2,9 @@ import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
 import twilio from 'twilio';
 import { app_config } from './config';
+import { start_dispatch } from './dispatch';
+import { compute_quote, is_valid_category, is_valid_urgency } from './pricing';
+import { compute_helper_share } from './stripe_connect';
 
 const db = admin.firestore();
 
@@ -17,32 +20,28 @@ export const on_request_created = functions.firestore
   .onCreate(async (snapshot, context) => {
     const request_data = snapshot.data();
     const request_id = context.params.request_id;
+    const urgency = request_data.urgency || 'standard';
 
-    const helpers_query = await db
-      .collection('users')
-      .where('role', '==', 'helper')
-      .where('is_available', '==', true)
-      .get();
-
-    const batch = db.batch();
+    if (!is_valid_category(request_data.category) || !is_valid_urgency(urgency)) {
+      console.error(`Request ${request_id} has an invalid category or urgency, not dispatching`);
+      return;
+    }
 
-    helpers_query.docs.forEach((helper_doc) => {
-      const notification_ref = db.collection('notifications').doc();
-      batch.set(notification_ref, {
-        user_id: helper_doc.id,
-        type: 'new_request',
-        request_id,
-        category: request_data.category,
-        description: request_data.description,
-        amount: request_data.amount,
-        read: false,
-        created_at: admin.firestore.FieldValue.serverTimestamp(),
-      });
+    // Price is stamped here, never taken from the client
+    const quote = await compute_quote(
+      request_data.category,
+      urgency,
+      request_data.customer_id,
+      snapshot.createTime.toDate()
+    );
+
+    await snapshot.ref.update({
+      amount: quote.total,
+      price_breakdown: quote.line_items,
+      priced_at: admin.firestore.FieldValue.serverTimestamp(),
     });
 
-    await batch.commit();
-
-    console.log(`Created notifications for ${helpers_query.size} helpers`);
+    await start_dispatch(request_id);
   });
 
 export const on_request_claimed = functions.firestore
@@ -115,6 +114,9 @@ export const on_request_claimed = functions.firestore
     }
 
     if (before.status !== 'completed' && after.status === 'completed') {
+      // The guarantee policy may have reduced or waived the charge
+      const helper_share: number = after.guarantee?.helper_share ?? compute_helper_share(after.amount).helper_share;
+
       await db.collection('notifications').add({
         user_id: after.customer_id,
         type: 'session_completed',
@@ -130,8 +132,10 @@ export const on_request_claimed = functions.firestore
         type: 'session_completed',
         request_id,
         outcome: after.outcome,
-        amount: after.amount,
-        message: `Session completed. You earned $${(after.amount / 100).toFixed(2)}`,
+        amount: helper_share,
+        message: helper_share > 0
+          ? `Session completed. You earned $${(helper_share / 100).toFixed(2)}`
+          : 'Session completed. The customer was not charged under our satisfaction guarantee.',
         read: false,
         created_at: admin.firestore.FieldValue.serverTimestamp(),
       });
@@ -0,0 +1,18 @@
+import * as admin from 'firebase-admin';
+
+const db = admin.firestore();
+
+// Writes an in-app notification for a single user.
+export async function notify_user(
+  user_id: string,
+  type: string,
+  fields: admin.firestore.DocumentData
+): Promise<void> {
+  await db.collection('notifications').add({
+    user_id,
+    type,
+    ...fields,
+    read: false,
+    created_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
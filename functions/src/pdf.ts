@@ -0,0 +1,82 @@
+// Minimal single-page PDF writer for plain-text documents such as
+// receipts. Only the standard Helvetica fonts are used, so nothing has to
+// be embedded.
+
+export interface PdfLine {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  // Right-aligned text printed on the same line, e.g. an amount
+  value?: string;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+
+// The standard fonts use WinAnsi encoding; anything outside printable
+// ASCII is dropped rather than rendered as garbage
+function escape_pdf_text(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e]/g, '')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+// Helvetica averages about half an em per character, close enough to
+// right-align short values
+function approximate_width(text: string, size: number): number {
+  return text.length * size * 0.5;
+}
+
+function text_op(text: string, x: number, y: number, size: number, bold: boolean): string {
+  return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${y} Td (${escape_pdf_text(text)}) Tj ET`;
+}
+
+export function render_text_pdf(lines: PdfLine[]): Buffer {
+  const operations: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  lines.forEach((line) => {
+    const size = line.size ?? 11;
+    const bold = line.bold ?? false;
+
+    operations.push(text_op(line.text, MARGIN, y, size, bold));
+
+    if (line.value !== undefined) {
+      const x = PAGE_WIDTH - MARGIN - approximate_width(line.value, size);
+      operations.push(text_op(line.value, x, y, size, bold));
+    }
+
+    y -= size * 1.6;
+  });
+
+  const content = operations.join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xref_offset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach((offset) => {
+    output += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  });
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref_offset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
@@ -0,0 +1,51 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { app_config } from './config';
+
+const db = admin.firestore();
+
+// True when the helper's app has sent a heartbeat within the timeout.
+export function is_presence_fresh(
+  helper_data: admin.firestore.DocumentData,
+  now_ms: number
+): boolean {
+  if (!helper_data.last_seen_at) {
+    return false;
+  }
+  return now_ms - helper_data.last_seen_at.toMillis() <= app_config.presence.timeout_seconds * 1000;
+}
+
+// Flips helpers to unavailable once their app stops sending heartbeats,
+// e.g. because they closed the tab without toggling availability off.
+export const expire_stale_presence = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const available_query = await db
+      .collection('users')
+      .where('role', '==', 'helper')
+      .where('is_available', '==', true)
+      .get();
+
+    const now_ms = Date.now();
+    const stale_docs = available_query.docs.filter(
+      (helper_doc) => !is_presence_fresh(helper_doc.data(), now_ms)
+    );
+
+    if (stale_docs.length === 0) {
+      return;
+    }
+
+    const batch = db.batch();
+
+    stale_docs.forEach((helper_doc) => {
+      batch.update(helper_doc.ref, {
+        is_available: false,
+        presence_expired_at: admin.firestore.FieldValue.serverTimestamp(),
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    await batch.commit();
+
+    console.log(`Marked ${stale_docs.length} silent helpers as unavailable`);
+  });
@@ -0,0 +1,162 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+const db = admin.firestore();
+
+export type Urgency = 'standard' | 'priority' | 'emergency';
+
+interface AutomaticPromotion {
+  id: string;
+  label: string;
+  percent_off: number;
+  first_session_only?: boolean;
+  categories?: string[];
+}
+
+// All prices are in cents. Category values must match the client's
+// app_config.categories.
+const PRICING_RULES = {
+  category_base_prices: {
+    plumbing: 4999,
+    electrical: 4999,
+    hvac: 5999,
+    appliance: 3999,
+    other: 3999,
+  } as Record<string, number>,
+
+  urgency_surcharge_percent: {
+    standard: 0,
+    priority: 25,
+    emergency: 50,
+  } as Record<Urgency, number>,
+
+  after_hours: {
+    timezone: 'America/New_York',
+    start_hour: 20,
+    end_hour: 7,
+    surcharge_percent: 20,
+  },
+
+  promotions: [
+    { id: 'first_session', label: 'First session discount', percent_off: 10, first_session_only: true },
+  ] as AutomaticPromotion[],
+};
+
+export interface PriceLineItem {
+  code: string;
+  label: string;
+  amount: number;
+}
+
+export interface PriceQuote {
+  category: string;
+  urgency: Urgency;
+  line_items: PriceLineItem[];
+  total: number;
+}
+
+// Own keys only, so names like 'constructor' are not mistaken for rules
+export function is_valid_category(category: string): boolean {
+  return Object.prototype.hasOwnProperty.call(PRICING_RULES.category_base_prices, category);
+}
+
+export function is_valid_urgency(urgency: string): urgency is Urgency {
+  return Object.prototype.hasOwnProperty.call(PRICING_RULES.urgency_surcharge_percent, urgency);
+}
+
+function is_after_hours(at: Date): boolean {
+  const { timezone, start_hour, end_hour } = PRICING_RULES.after_hours;
+  const hour = Number(
+    new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: timezone }).format(at)
+  );
+  return hour >= start_hour || hour < end_hour;
+}
+
+async function is_first_session(customer_id: string): Promise<boolean> {
+  const completed_query = await db
+    .collection('requests')
+    .where('customer_id', '==', customer_id)
+    .where('status', '==', 'completed')
+    .limit(1)
+    .get();
+  return completed_query.empty;
+}
+
+function percent_of(amount: number, percent: number): number {
+  return Math.round((amount * percent) / 100);
+}
+
+// Single source of truth for what a request costs. Surcharges apply to the
+// base price; promotions apply to the surcharged subtotal.
+export async function compute_quote(
+  category: string,
+  urgency: Urgency,
+  customer_id: string,
+  at: Date = new Date()
+): Promise<PriceQuote> {
+  const base_price = PRICING_RULES.category_base_prices[category];
+  const line_items: PriceLineItem[] = [
+    { code: 'base', label: 'Session', amount: base_price },
+  ];
+
+  const urgency_percent = PRICING_RULES.urgency_surcharge_percent[urgency];
+  if (urgency_percent > 0) {
+    line_items.push({
+      code: `urgency_${urgency}`,
+      label: `${urgency === 'emergency' ? 'Emergency' : 'Priority'} response`,
+      amount: percent_of(base_price, urgency_percent),
+    });
+  }
+
+  if (is_after_hours(at)) {
+    line_items.push({
+      code: 'after_hours',
+      label: 'After-hours surcharge',
+      amount: percent_of(base_price, PRICING_RULES.after_hours.surcharge_percent),
+    });
+  }
+
+  const subtotal = line_items.reduce((sum, item) => sum + item.amount, 0);
+  const first_session = await is_first_session(customer_id);
+
+  PRICING_RULES.promotions
+    .filter((promotion) => !promotion.categories || promotion.categories.includes(category))
+    .filter((promotion) => !promotion.first_session_only || first_session)
+    .forEach((promotion) => {
+      line_items.push({
+        code: `promo_${promotion.id}`,
+        label: promotion.label,
+        amount: -percent_of(subtotal, promotion.percent_off),
+      });
+    });
+
+  const total = Math.max(0, line_items.reduce((sum, item) => sum + item.amount, 0));
+
+  return { category, urgency, line_items, total };
+}
+
+export const get_quote = functions.https.onCall(
+  async (data: { category: string; urgency?: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { category } = data;
+    const urgency = data.urgency || 'standard';
+
+    if (!category || !is_valid_category(category)) {
+      throw new functions.https.HttpsError('invalid-argument', 'Invalid category');
+    }
+
+    if (!is_valid_urgency(urgency)) {
+      throw new functions.https.HttpsError('invalid-argument', 'Invalid urgency');
+    }
+
+    try {
+      return await compute_quote(category, urgency, context.auth.uid);
+    } catch (error) {
+      console.error('Error computing quote:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to compute quote');
+    }
+  }
+);
@@ -0,0 +1,290 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { is_admin } from './auth';
+
+const db = admin.firestore();
+
+// Stripe will not authorize a USD charge below 50 cents, so discounts and
+// credit never reduce the amount due past this floor.
+export const MIN_CHARGE_CENTS = 50;
+
+export type PromotionType = 'percent' | 'fixed';
+
+export interface CheckoutSummary {
+  amount: number;
+  promo_code: string | null;
+  promo_discount: number;
+  credit_applied: number;
+  amount_due: number;
+}
+
+export function normalize_promo_code(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function user_redemptions_query(code: string, customer_id: string): admin.firestore.Query {
+  return db
+    .collection('payments')
+    .where('type', '==', 'promo_redemption')
+    .where('promo_code', '==', code)
+    .where('customer_id', '==', customer_id)
+    .where('status', '==', 'redeemed');
+}
+
+async function count_user_redemptions(code: string, customer_id: string): Promise<number> {
+  const redemptions_query = await user_redemptions_query(code, customer_id).get();
+  return redemptions_query.size;
+}
+
+// Validates a code against the request and returns the discount in cents.
+// Throws failed-precondition with a customer-facing message when the code
+// cannot be used.
+async function evaluate_promo_code(
+  code: string,
+  customer_id: string,
+  request_data: admin.firestore.DocumentData
+): Promise<number> {
+  const promotion_doc = await db.collection('promotions').doc(code).get();
+  const promotion = promotion_doc.data();
+
+  if (!promotion || promotion.active !== true) {
+    throw new functions.https.HttpsError('not-found', 'This promo code is not valid');
+  }
+
+  if (promotion.expires_at && promotion.expires_at.toMillis() <= Date.now()) {
+    throw new functions.https.HttpsError('failed-precondition', 'This promo code has expired');
+  }
+
+  if (promotion.categories?.length && !promotion.categories.includes(request_data.category)) {
+    throw new functions.https.HttpsError('failed-precondition', 'This promo code does not apply to this category');
+  }
+
+  if (promotion.per_user_limit) {
+    const used = await count_user_redemptions(code, customer_id);
+    if (used >= promotion.per_user_limit) {
+      throw new functions.https.HttpsError('failed-precondition', 'You have already used this promo code');
+    }
+  }
+
+  const discount = promotion.type === 'percent'
+    ? Math.round((request_data.amount * promotion.value) / 100)
+    : promotion.value;
+
+  return Math.max(0, discount);
+}
+
+// Works out what the customer owes after the promo code and then their
+// credit balance. Used for both the checkout preview and the real charge.
+export async function build_checkout_summary(
+  customer_id: string,
+  request_data: admin.firestore.DocumentData,
+  promo_code?: string
+): Promise<CheckoutSummary> {
+  const amount: number = request_data.amount;
+  const max_reduction = Math.max(0, amount - MIN_CHARGE_CENTS);
+
+  const code = promo_code ? normalize_promo_code(promo_code) : null;
+  const promo_discount = code
+    ? Math.min(await evaluate_promo_code(code, customer_id, request_data), max_reduction)
+    : 0;
+
+  const user_doc = await db.collection('users').doc(customer_id).get();
+  const credit_balance: number = user_doc.data()?.credit_balance || 0;
+  const credit_applied = Math.min(credit_balance, max_reduction - promo_discount);
+
+  return {
+    amount,
+    promo_code: code,
+    promo_discount,
+    credit_applied,
+    amount_due: amount - promo_discount - credit_applied,
+  };
+}
+
+// Re-checks the per-user limit inside the checkout transaction, so two
+// checkouts running at once cannot both use the customer's last redemption.
+// Must be called before the transaction writes anything.
+export async function assert_promo_available(
+  transaction: admin.firestore.Transaction,
+  summary: CheckoutSummary,
+  customer_id: string
+): Promise<void> {
+  if (!summary.promo_code || summary.promo_discount <= 0) {
+    return;
+  }
+
+  const promotion_doc = await transaction.get(db.collection('promotions').doc(summary.promo_code));
+  const per_user_limit: number | undefined = promotion_doc.data()?.per_user_limit;
+
+  if (!per_user_limit) {
+    return;
+  }
+
+  const redemptions_snapshot = await transaction.get(user_redemptions_query(summary.promo_code, customer_id));
+
+  if (redemptions_snapshot.size >= per_user_limit) {
+    throw new functions.https.HttpsError('failed-precondition', 'You have already used this promo code');
+  }
+}
+
+// Debits the customer's credit and records the promo and credit redemptions
+// against the payment intent. Reads must happen before this is called.
+export function record_redemptions(
+  transaction: admin.firestore.Transaction,
+  summary: CheckoutSummary,
+  ids: { request_id: string; customer_id: string; payment_intent_id: string }
+): void {
+  if (summary.promo_code && summary.promo_discount > 0) {
+    transaction.set(db.collection('payments').doc(), {
+      ...ids,
+      type: 'promo_redemption',
+      promo_code: summary.promo_code,
+      amount: summary.promo_discount,
+      status: 'redeemed',
+      created_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    transaction.update(db.collection('promotions').doc(summary.promo_code), {
+      redemption_count: admin.firestore.FieldValue.increment(1),
+    });
+  }
+
+  if (summary.credit_applied > 0) {
+    transaction.set(db.collection('payments').doc(), {
+      ...ids,
+      type: 'credit_redemption',
+      amount: summary.credit_applied,
+      status: 'redeemed',
+      created_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    transaction.update(db.collection('users').doc(ids.customer_id), {
+      credit_balance: admin.firestore.FieldValue.increment(-summary.credit_applied),
+    });
+  }
+}
+
+// Gives back the promo use and credit spent on a payment that was voided
+// before anything was captured. Runs in a transaction because both the void
+// and the canceled webhook reverse the same redemptions.
+export async function reverse_redemptions(payment_intent_id: string): Promise<void> {
+  const redemptions_query = db
+    .collection('payments')
+    .where('payment_intent_id', '==', payment_intent_id)
+    .where('status', '==', 'redeemed');
+
+  await db.runTransaction(async (transaction) => {
+    const redemptions_snapshot = await transaction.get(redemptions_query);
+
+    redemptions_snapshot.docs.forEach((redemption_doc) => {
+      const redemption = redemption_doc.data();
+
+      transaction.update(redemption_doc.ref, {
+        status: 'reversed',
+        reversed_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      if (redemption.type === 'credit_redemption') {
+        transaction.update(db.collection('users').doc(redemption.customer_id), {
+          credit_balance: admin.firestore.FieldValue.increment(redemption.amount),
+        });
+      } else if (redemption.type === 'promo_redemption') {
+        transaction.update(db.collection('promotions').doc(redemption.promo_code), {
+          redemption_count: admin.firestore.FieldValue.increment(-1),
+        });
+      }
+    });
+  });
+}
+
+// Adds to a user's credit balance and records the grant in payments.
+export async function grant_user_credit(
+  user_id: string,
+  amount: number,
+  reason: string,
+  granted_by: string
+): Promise<void> {
+  const batch = db.batch();
+
+  batch.update(db.collection('users').doc(user_id), {
+    credit_balance: admin.firestore.FieldValue.increment(amount),
+  });
+
+  batch.set(db.collection('payments').doc(), {
+    type: 'credit_grant',
+    customer_id: user_id,
+    amount,
+    reason,
+    granted_by,
+    status: 'granted',
+    created_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await batch.commit();
+}
+
+export const validate_promo_code = functions.https.onCall(
+  async (data: { request_id: string; code?: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { request_id, code } = data;
+
+    if (!request_id) {
+      throw new functions.https.HttpsError('invalid-argument', 'Request ID is required');
+    }
+
+    const request_doc = await db.collection('requests').doc(request_id).get();
+    const request_data = request_doc.data();
+
+    if (!request_data) {
+      throw new functions.https.HttpsError('not-found', 'Request not found');
+    }
+
+    if (request_data.customer_id !== context.auth.uid) {
+      throw new functions.https.HttpsError('permission-denied', 'Only the customer can check out this request');
+    }
+
+    if (!request_data.amount) {
+      throw new functions.https.HttpsError('failed-precondition', 'Request has not been priced yet');
+    }
+
+    try {
+      return await build_checkout_summary(context.auth.uid, request_data, code);
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Error validating promo code:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to validate promo code');
+    }
+  }
+);
+
+export const grant_credit = functions.https.onCall(
+  async (data: { user_id: string; amount: number; reason: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (!is_admin(context)) {
+      throw new functions.https.HttpsError('permission-denied', 'Only admins can grant credit');
+    }
+
+    const { user_id, amount, reason } = data;
+
+    if (!user_id || !reason || !Number.isInteger(amount) || amount <= 0) {
+      throw new functions.https.HttpsError('invalid-argument', 'User ID, a positive amount in cents and a reason are required');
+    }
+
+    try {
+      await grant_user_credit(user_id, amount, reason, context.auth.uid);
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error granting credit:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to grant credit');
+    }
+  }
+);
@@ -0,0 +1,176 @@
+import * as admin from 'firebase-admin';
+import Stripe from 'stripe';
+import { render_text_pdf, PdfLine } from './pdf';
+import { send_email } from './email';
+
+const db = admin.firestore();
+
+function format_cents(amount: number): string {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}$${(Math.abs(amount) / 100).toFixed(2)}`;
+}
+
+function category_label(category: string | undefined): string {
+  if (!category) return 'Home repair';
+  return category === 'hvac' ? 'HVAC' : category.charAt(0).toUpperCase() + category.slice(1);
+}
+
+function card_last4(payment_intent: Stripe.PaymentIntent): string | null {
+  const charge = payment_intent.latest_charge;
+
+  if (!charge || typeof charge === 'string') {
+    return null;
+  }
+
+  return charge.payment_method_details?.card?.last4 || null;
+}
+
+// Storage path of a request's receipt. Readable only by the customer; see
+// storage.rules.
+export function receipt_path(request_id: string): string {
+  return `requests/${request_id}/receipts/receipt.pdf`;
+}
+
+// Builds the PDF from the request as it stands, stores it under the request
+// (replacing any earlier one) and emails it to the customer.
+async function write_receipt(
+  request_ref: admin.firestore.DocumentReference,
+  request_data: admin.firestore.DocumentData,
+  payment_intent: Stripe.PaymentIntent,
+  is_update: boolean
+): Promise<void> {
+  const request_id = request_ref.id;
+  const [customer_doc, helper_doc, session_doc] = await Promise.all([
+    db.collection('users').doc(request_data.customer_id).get(),
+    request_data.helper_id ? db.collection('users').doc(request_data.helper_id).get() : null,
+    request_data.session_id ? db.collection('sessions').doc(request_data.session_id).get() : null,
+  ]);
+
+  const captured_amount = payment_intent.amount_received;
+  const session_price: number = request_data.amount || 0;
+  const promo_discount: number = request_data.promo_discount || 0;
+  const credit_applied: number = request_data.credit_applied || 0;
+  const amount_due: number = request_data.amount_due ?? session_price;
+  const refunded_amount: number = request_data.refunded_amount || 0;
+  // A 'partial' guarantee captures only a share of what was billed
+  const guarantee_adjustment: number = request_data.guarantee?.action === 'partial'
+    ? Math.min(0, captured_amount - request_data.guarantee.base_amount)
+    : 0;
+  const duration_seconds: number | undefined = session_doc?.data()?.duration;
+  const last4 = card_last4(payment_intent);
+  const issued_at = new Date();
+
+  const lines: PdfLine[] = [
+    { text: 'HomePro Assist', size: 20, bold: true },
+    { text: 'Receipt', size: 14 },
+    { text: '' },
+    { text: 'Date', value: issued_at.toISOString().slice(0, 10) },
+    { text: 'Request', value: request_id },
+    { text: 'Category', value: category_label(request_data.category) },
+    { text: 'Helper', value: helper_doc?.data()?.display_name || 'Helper' },
+  ];
+
+  if (duration_seconds !== undefined) {
+    lines.push({ text: 'Session duration', value: `${Math.max(1, Math.round(duration_seconds / 60))} min` });
+  }
+
+  lines.push({ text: '' });
+
+  if (request_data.status === 'cancelled') {
+    lines.push({ text: 'Cancellation fee', value: format_cents(captured_amount) });
+  } else {
+    lines.push({ text: 'Session price', value: format_cents(session_price) });
+
+    if (promo_discount > 0) {
+      lines.push({ text: `Promo ${request_data.promo_code || ''}`.trim(), value: format_cents(-promo_discount) });
+    }
+
+    if (credit_applied > 0) {
+      lines.push({ text: 'Account credit', value: format_cents(-credit_applied) });
+    }
+
+    // Approved extension time is billed on top of the amount due
+    const billed_amount = captured_amount - guarantee_adjustment;
+    if (billed_amount > amount_due) {
+      lines.push({ text: 'Extra time', value: format_cents(billed_amount - amount_due) });
+    }
+
+    if (guarantee_adjustment < 0) {
+      lines.push({ text: 'Satisfaction guarantee', value: format_cents(guarantee_adjustment) });
+    }
+  }
+
+  lines.push({ text: 'Total charged', bold: true, value: format_cents(captured_amount) });
+
+  if (refunded_amount > 0) {
+    lines.push({ text: 'Refunded', value: format_cents(-refunded_amount) });
+    lines.push({ text: 'Net paid', bold: true, value: format_cents(captured_amount - refunded_amount) });
+  }
+
+  if (last4) {
+    lines.push({ text: 'Paid with', value: `Card ending ${last4}` });
+  }
+
+  const pdf = render_text_pdf(lines);
+  const path = receipt_path(request_id);
+
+  await admin.storage().bucket().file(path).save(pdf, {
+    contentType: 'application/pdf',
+    resumable: false,
+  });
+
+  await request_ref.update({
+    receipt_path: path,
+    receipt_issued_at: admin.firestore.Timestamp.fromDate(issued_at),
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  const customer_email: string | undefined = customer_doc.data()?.email;
+
+  if (!customer_email) {
+    console.error(`Customer ${request_data.customer_id} has no email; receipt for ${request_id} not sent`);
+    return;
+  }
+
+  await send_email({
+    to: customer_email,
+    subject: is_update
+      ? `Your updated HomePro Assist receipt for ${format_cents(captured_amount - refunded_amount)}`
+      : `Your HomePro Assist receipt for ${format_cents(captured_amount)}`,
+    text: is_update
+      ? `We refunded ${format_cents(refunded_amount)} of your payment for request ${request_id}. ` +
+        `Your updated receipt is attached.\n\n` +
+        'You can also download it from the request page.'
+      : `Thanks for using HomePro Assist. Your receipt for request ${request_id} is attached.\n\n` +
+        'You can also download it from the request page.',
+    attachments: [{ filename: `receipt-${request_id}.pdf`, content: pdf, content_type: 'application/pdf' }],
+  });
+
+  await request_ref.update({ receipt_emailed_at: admin.firestore.FieldValue.serverTimestamp() });
+}
+
+// Issues the receipt for a captured payment, once. Pass the payment intent
+// with latest_charge expanded so the card can be shown.
+export async function issue_receipt(request_id: string, payment_intent: Stripe.PaymentIntent): Promise<void> {
+  const request_ref = db.collection('requests').doc(request_id);
+  const request_data = (await request_ref.get()).data();
+
+  if (!request_data || request_data.receipt_path) {
+    return;
+  }
+
+  await write_receipt(request_ref, request_data, payment_intent, false);
+}
+
+// Replaces the receipt after a refund so it shows the refunded and net
+// amounts. Requests that never had a receipt are left alone.
+export async function reissue_receipt(request_id: string, payment_intent: Stripe.PaymentIntent): Promise<void> {
+  const request_ref = db.collection('requests').doc(request_id);
+  const request_data = (await request_ref.get()).data();
+
+  if (!request_data?.receipt_path) {
+    return;
+  }
+
+  await write_receipt(request_ref, request_data, payment_intent, true);
+}
@@ -0,0 +1,99 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+const db = admin.firestore();
+
+export type RequestStatus =
+  | 'pending'
+  | 'claimed'
+  | 'payment_pending'
+  | 'in_session'
+  | 'awaiting_confirmation'
+  | 'disputed'
+  | 'completed'
+  | 'cancelled';
+
+export type ActorRole = 'customer' | 'helper' | 'admin' | 'system';
+
+export interface TransitionActor {
+  id: string;
+  role: ActorRole;
+}
+
+export const SYSTEM_ACTOR: TransitionActor = { id: 'system', role: 'system' };
+
+// Every legal move a request can make. Anything not listed here is rejected.
+export const REQUEST_TRANSITIONS: Record<RequestStatus, RequestStatus[]> = {
+  pending: ['claimed', 'cancelled'],
+  claimed: ['payment_pending', 'pending', 'cancelled'],
+  payment_pending: ['in_session', 'claimed', 'pending', 'cancelled'],
+  in_session: ['awaiting_confirmation'],
+  // The customer confirms or disputes the helper's outcome
+  awaiting_confirmation: ['completed', 'disputed'],
+  // Support decides whether the customer is charged
+  disputed: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+export function can_transition(from: RequestStatus, to: RequestStatus): boolean {
+  return (REQUEST_TRANSITIONS[from] || []).includes(to);
+}
+
+// Moves a request to a new status inside an existing transaction and records
+// the change in requests/{id}/events. The caller must have read request_data
+// in the same transaction.
+export function apply_transition(
+  transaction: admin.firestore.Transaction,
+  request_ref: admin.firestore.DocumentReference,
+  request_data: admin.firestore.DocumentData,
+  to: RequestStatus,
+  actor: TransitionActor,
+  reason: string,
+  updates: admin.firestore.DocumentData = {}
+): void {
+  const from = request_data.status as RequestStatus;
+
+  if (!can_transition(from, to)) {
+    throw new functions.https.HttpsError(
+      'failed-precondition',
+      `Cannot move request from ${from} to ${to}`
+    );
+  }
+
+  transaction.update(request_ref, {
+    ...updates,
+    status: to,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  transaction.set(request_ref.collection('events').doc(), {
+    from,
+    to,
+    actor_id: actor.id,
+    actor_role: actor.role,
+    reason,
+    created_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+// Standalone variant for callers that are not already in a transaction.
+export async function transition_request_status(
+  request_id: string,
+  to: RequestStatus,
+  actor: TransitionActor,
+  reason: string,
+  updates: admin.firestore.DocumentData = {}
+): Promise<void> {
+  const request_ref = db.collection('requests').doc(request_id);
+
+  await db.runTransaction(async (transaction) => {
+    const request_doc = await transaction.get(request_ref);
+
+    if (!request_doc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Request not found');
+    }
+
+    apply_transition(transaction, request_ref, request_doc.data()!, to, actor, reason, updates);
+  });
+}
@@ -0,0 +1,404 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { app_config } from './config';
+import { apply_transition, RequestStatus, SYSTEM_ACTOR } from './request_lifecycle';
+import { settle_cancelled_payment, void_request_payment } from './stripe_functions';
+import { release_unused_room } from './sessions';
+import { notify_user } from './notify';
+import { close_offers, get_open_offers, start_dispatch, withdraw_open_offers } from './dispatch';
+
+const db = admin.firestore();
+
+// Transitions participants may request directly. Claiming, payment,
+// starting a session, cancellation and confirming completion have side
+// effects and go through their own functions.
+const PARTICIPANT_TRANSITIONS: Partial<Record<RequestStatus, ('customer' | 'helper')[]>> = {
+  awaiting_confirmation: ['helper'],
+};
+
+const SESSION_OUTCOMES = ['resolved', 'unresolved', 'escalated'];
+
+// Once a session has started the customer cannot walk away from the charge;
+// it ends through end_session and the completion or support flow instead
+const CUSTOMER_CANCELLABLE_STATUSES: RequestStatus[] = ['pending', 'claimed', 'payment_pending'];
+
+export const claim_request = functions.https.onCall(
+  async (data: { request_id: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (context.auth.token.role !== 'helper') {
+      throw new functions.https.HttpsError('permission-denied', 'Only helpers can claim requests');
+    }
+
+    const { request_id } = data;
+
+    if (!request_id) {
+      throw new functions.https.HttpsError('invalid-argument', 'Request ID is required');
+    }
+
+    const helper_id = context.auth.uid;
+    const request_ref = db.collection('requests').doc(request_id);
+    const helper_ref = db.collection('users').doc(helper_id);
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const request_doc = await transaction.get(request_ref);
+        const helper_doc = await transaction.get(helper_ref);
+        const open_offers = await get_open_offers(transaction, request_ref);
+
+        if (!request_doc.exists) {
+          throw new functions.https.HttpsError('not-found', 'Request not found');
+        }
+
+        const helper_data = helper_doc.data();
+
+        if (!helper_data || helper_data.is_available !== true) {
+          throw new functions.https.HttpsError('failed-precondition', 'You must be available to claim requests');
+        }
+
+        if (helper_data.payouts_enabled !== true) {
+          throw new functions.https.HttpsError('failed-precondition', 'Finish setting up payouts before claiming jobs');
+        }
+
+        const request_data = request_doc.data()!;
+
+        if (request_data.status !== 'pending') {
+          if (request_data.helper_id) {
+            throw new functions.https.HttpsError('already-exists', 'This request has already been claimed by another helper');
+          }
+          throw new functions.https.HttpsError('failed-precondition', 'This request is no longer available');
+        }
+
+        const has_offer = open_offers.some((offer_doc) => offer_doc.data().helper_id === helper_id);
+
+        if (request_data.dispatch?.mode === 'targeted' && !has_offer) {
+          throw new functions.https.HttpsError('failed-precondition', 'This job is currently offered to other helpers');
+        }
+
+        close_offers(transaction, open_offers, helper_id);
+
+        transaction.update(helper_ref, {
+          last_job_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        apply_transition(
+          transaction,
+          request_ref,
+          request_data,
+          'claimed',
+          { id: helper_id, role: 'helper' },
+          'Claimed by helper',
+          {
+            helper_id,
+            helper_name: helper_data.display_name || 'Helper',
+            claimed_at: admin.firestore.FieldValue.serverTimestamp(),
+            hold_expires_at: admin.firestore.Timestamp.fromMillis(
+              Date.now() + app_config.claims.hold_minutes * 60 * 1000
+            ),
+          }
+        );
+      });
+
+      return { success: true, request_id };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Error claiming request:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to claim request');
+    }
+  }
+);
+
+export const transition_request = functions.https.onCall(
+  async (
+    data: {
+      request_id: string;
+      to: RequestStatus;
+      reason?: string;
+      outcome?: string;
+    },
+    context
+  ) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { request_id, to, reason, outcome } = data;
+
+    if (!request_id || !to) {
+      throw new functions.https.HttpsError('invalid-argument', 'Request ID and target status are required');
+    }
+
+    const allowed_roles = PARTICIPANT_TRANSITIONS[to];
+
+    if (!allowed_roles) {
+      throw new functions.https.HttpsError('permission-denied', `Requests cannot be moved to ${to} directly`);
+    }
+
+    if (to === 'awaiting_confirmation' && (!outcome || !SESSION_OUTCOMES.includes(outcome))) {
+      throw new functions.https.HttpsError('invalid-argument', 'A valid session outcome is required');
+    }
+
+    const uid = context.auth.uid;
+    const request_ref = db.collection('requests').doc(request_id);
+
+    try {
+      const previous_data = await db.runTransaction(async (transaction) => {
+        const request_doc = await transaction.get(request_ref);
+
+        if (!request_doc.exists) {
+          throw new functions.https.HttpsError('not-found', 'Request not found');
+        }
+
+        const request_data = request_doc.data()!;
+        const actor_role = request_data.customer_id === uid
+          ? 'customer'
+          : request_data.helper_id === uid
+            ? 'helper'
+            : null;
+
+        if (!actor_role || !allowed_roles.includes(actor_role)) {
+          throw new functions.https.HttpsError('permission-denied', `Only the ${allowed_roles.join(' or ')} can move this request to ${to}`);
+        }
+
+        // finish_session settles overtime and the final amount, which the
+        // customer's confirmation then captures
+        if (to === 'awaiting_confirmation') {
+          const session_doc = request_data.session_id
+            ? await transaction.get(db.collection('sessions').doc(request_data.session_id))
+            : null;
+
+          if (session_doc?.data()?.status !== 'ended') {
+            throw new functions.https.HttpsError('failed-precondition', 'End the session before asking the customer to confirm');
+          }
+
+          // finish_session writes the amount just after ending the session
+          if (request_data.payment_status === 'authorized' && request_data.final_amount === undefined) {
+            throw new functions.https.HttpsError('aborted', 'The session is still being settled. Please try again.');
+          }
+        }
+
+        const updates: admin.firestore.DocumentData = {};
+
+        if (outcome) {
+          updates.outcome = outcome;
+          updates.confirmation_due_at = admin.firestore.Timestamp.fromMillis(
+            Date.now() + app_config.completion.confirmation_hours * 60 * 60 * 1000
+          );
+        }
+
+        apply_transition(
+          transaction,
+          request_ref,
+          request_data,
+          to,
+          { id: uid, role: actor_role },
+          reason || `Moved to ${to} by ${actor_role}`,
+          updates
+        );
+
+        return request_data;
+      });
+
+      if (to === 'awaiting_confirmation') {
+        await notify_user(previous_data.customer_id, 'confirmation_requested', {
+          request_id,
+          outcome,
+          message: 'Your helper has wrapped up. Please confirm whether your issue was resolved.',
+        });
+      }
+
+      return { success: true, status: to };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Error transitioning request:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to update request status');
+    }
+  }
+);
+
+export const cancel_request = functions.https.onCall(
+  async (data: { request_id: string; reason?: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { request_id, reason } = data;
+
+    if (!request_id) {
+      throw new functions.https.HttpsError('invalid-argument', 'Request ID is required');
+    }
+
+    const customer_id = context.auth.uid;
+    const request_ref = db.collection('requests').doc(request_id);
+    let request_data: admin.firestore.DocumentData;
+
+    try {
+      request_data = await db.runTransaction(async (transaction) => {
+        const request_doc = await transaction.get(request_ref);
+
+        if (!request_doc.exists) {
+          throw new functions.https.HttpsError('not-found', 'Request not found');
+        }
+
+        const current_data = request_doc.data()!;
+
+        if (current_data.customer_id !== customer_id) {
+          throw new functions.https.HttpsError('permission-denied', 'Only the customer can cancel this request');
+        }
+
+        if (!CUSTOMER_CANCELLABLE_STATUSES.includes(current_data.status)) {
+          throw new functions.https.HttpsError('failed-precondition', 'This request can no longer be cancelled');
+        }
+
+        apply_transition(
+          transaction,
+          request_ref,
+          current_data,
+          'cancelled',
+          { id: customer_id, role: 'customer' },
+          reason || 'Cancelled by customer',
+          {
+            cancelled_at: admin.firestore.FieldValue.serverTimestamp(),
+            cancellation_reason: reason || '',
+          }
+        );
+
+        return current_data;
+      });
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Error cancelling request:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to cancel request');
+    }
+
+    // The request is cancelled at this point. The clean-up below is best
+    // effort: a hold we fail to release still expires on Stripe's side.
+    const fee_cents = request_data.helper_id ? app_config.cancellation.fee_cents : 0;
+    let fee_charged = 0;
+
+    if (request_data.payment_intent_id) {
+      try {
+        fee_charged = await settle_cancelled_payment(request_id, request_data.payment_intent_id, fee_cents);
+      } catch (error) {
+        console.error('Error releasing payment for cancelled request:', error);
+      }
+    }
+
+    try {
+      await withdraw_open_offers(request_id);
+    } catch (error) {
+      console.error('Error withdrawing offers for cancelled request:', error);
+    }
+
+    // A start_session that failed part-way can leave a room recorded on the
+    // request; close it so it does not keep running
+    await release_unused_room(request_id);
+
+    if (request_data.helper_id) {
+      await notify_user(request_data.helper_id, 'request_cancelled', {
+        request_id,
+        category: request_data.category,
+        message: 'The customer cancelled this request.',
+      });
+    }
+
+    try {
+      await request_ref.update({ cancellation_fee: fee_charged });
+    } catch (error) {
+      console.error('Error recording cancellation fee:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to cancel request');
+    }
+
+    return { success: true, cancellation_fee: fee_charged };
+  }
+);
+
+// Returns claimed jobs the customer never paid for to the queue once their
+// hold window has passed.
+export const release_expired_claims = functions.pubsub
+  .schedule('every 5 minutes')
+  .onRun(async () => {
+    const expired_query = await db
+      .collection('requests')
+      .where('status', 'in', ['claimed', 'payment_pending'])
+      .where('hold_expires_at', '<=', admin.firestore.Timestamp.now())
+      .get();
+
+    let released_count = 0;
+
+    for (const request_doc of expired_query.docs) {
+      const request_data = request_doc.data();
+
+      if (request_data.payment_status === 'authorized') {
+        continue;
+      }
+
+      if (request_data.payment_intent_id) {
+        try {
+          await void_request_payment(request_doc.id, request_data.payment_intent_id);
+        } catch (error) {
+          console.error(`Error voiding payment for released request ${request_doc.id}:`, error);
+        }
+      }
+
+      try {
+        await db.runTransaction(async (transaction) => {
+          const current_doc = await transaction.get(request_doc.ref);
+          const current_data = current_doc.data()!;
+
+          if (current_data.payment_status === 'authorized' || current_data.helper_id !== request_data.helper_id) {
+            return;
+          }
+
+          apply_transition(
+            transaction,
+            request_doc.ref,
+            current_data,
+            'pending',
+            SYSTEM_ACTOR,
+            'Claim hold expired without payment',
+            {
+              helper_id: admin.firestore.FieldValue.delete(),
+              helper_name: admin.firestore.FieldValue.delete(),
+              claimed_at: admin.firestore.FieldValue.delete(),
+              hold_expires_at: admin.firestore.FieldValue.delete(),
+              payment_intent_id: admin.firestore.FieldValue.delete(),
+              payment_status: 'pending',
+            }
+          );
+        });
+      } catch (error) {
+        console.error(`Error releasing request ${request_doc.id}:`, error);
+        continue;
+      }
+
+      released_count++;
+
+      try {
+        await start_dispatch(request_doc.id);
+      } catch (error) {
+        console.error(`Error re-dispatching released request ${request_doc.id}:`, error);
+      }
+
+      await notify_user(request_data.customer_id, 'claim_released', {
+        request_id: request_doc.id,
+        message: 'Payment was not completed in time, so your request is back in the queue for another helper.',
+      });
+
+      await notify_user(request_data.helper_id, 'claim_released', {
+        request_id: request_doc.id,
+        category: request_data.category,
+        message: 'The customer did not pay in time, so this job has been released.',
+      });
+    }
+
+    console.log(`Released ${released_count} expired claims`);
+  });
@@ -0,0 +1,151 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { is_admin } from './auth';
+
+const db = admin.firestore();
+
+const MAX_COMMENT_LENGTH = 1000;
+
+export const submit_review = functions.https.onCall(
+  async (data: { request_id: string; rating: number; comment?: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { request_id, rating } = data;
+    const comment = (data.comment || '').trim();
+
+    if (!request_id || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new functions.https.HttpsError('invalid-argument', 'Request ID and a rating from 1 to 5 are required');
+    }
+
+    if (comment.length > MAX_COMMENT_LENGTH) {
+      throw new functions.https.HttpsError('invalid-argument', `Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+    }
+
+    const uid = context.auth.uid;
+    const request_ref = db.collection('requests').doc(request_id);
+    // One review per request, so the request ID doubles as the review ID
+    const review_ref = db.collection('reviews').doc(request_id);
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const request_doc = await transaction.get(request_ref);
+        const review_doc = await transaction.get(review_ref);
+        const request_data = request_doc.data();
+
+        if (!request_data) {
+          throw new functions.https.HttpsError('not-found', 'Request not found');
+        }
+
+        if (request_data.customer_id !== uid) {
+          throw new functions.https.HttpsError('permission-denied', 'Only the customer can review this session');
+        }
+
+        if (request_data.status !== 'completed' || !request_data.helper_id) {
+          throw new functions.https.HttpsError('failed-precondition', 'Only completed sessions can be reviewed');
+        }
+
+        if (review_doc.exists) {
+          throw new functions.https.HttpsError('already-exists', 'You have already reviewed this session');
+        }
+
+        transaction.set(review_ref, {
+          request_id,
+          helper_id: request_data.helper_id,
+          helper_name: request_data.helper_name || '',
+          customer_id: uid,
+          customer_name: request_data.customer_name || '',
+          category: request_data.category,
+          outcome: request_data.outcome || null,
+          rating,
+          comment,
+          hidden: false,
+          created_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        transaction.update(request_ref, {
+          reviewed: true,
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+
+      return { success: true };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Error submitting review:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to submit review');
+    }
+  }
+);
+
+// Lets support hide abusive or off-topic reviews. Hidden reviews stop
+// counting towards the helper's rating.
+export const moderate_review = functions.https.onCall(
+  async (data: { review_id: string; hidden: boolean; reason?: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    if (!is_admin(context)) {
+      throw new functions.https.HttpsError('permission-denied', 'Only admins can moderate reviews');
+    }
+
+    const { review_id, hidden, reason } = data;
+
+    if (!review_id || typeof hidden !== 'boolean') {
+      throw new functions.https.HttpsError('invalid-argument', 'Review ID and visibility are required');
+    }
+
+    const review_ref = db.collection('reviews').doc(review_id);
+    const review_doc = await review_ref.get();
+
+    if (!review_doc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Review not found');
+    }
+
+    try {
+      await review_ref.update({
+        hidden,
+        moderation_reason: reason || '',
+        moderated_by: context.auth.uid,
+        moderated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error moderating review:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to update review');
+    }
+  }
+);
+
+// Keeps rating_average and rating_count on the helper's profile in step
+// with their visible reviews. Recomputed from scratch, so redelivered
+// events are harmless.
+export const on_review_written = functions.firestore
+  .document('reviews/{review_id}')
+  .onWrite(async (change) => {
+    const helper_id: string | undefined = change.after.data()?.helper_id || change.before.data()?.helper_id;
+
+    if (!helper_id) {
+      return;
+    }
+
+    const reviews_query = await db
+      .collection('reviews')
+      .where('helper_id', '==', helper_id)
+      .where('hidden', '==', false)
+      .get();
+
+    const rating_count = reviews_query.size;
+    const rating_total = reviews_query.docs.reduce((total, review_doc) => total + review_doc.data().rating, 0);
+
+    await db.collection('users').doc(helper_id).update({
+      rating_count,
+      rating_average: rating_count > 0 ? Math.round((rating_total / rating_count) * 100) / 100 : null,
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
@@ -0,0 +1,643 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { app_config } from './config';
+import { ensure_payment_authorized, increase_authorization } from './stripe_functions';
+import { apply_transition } from './request_lifecycle';
+import { end_provider_session, get_video_provider } from './video_provider';
+import { create_provider_session } from './video_sessions';
+import { sync_video_session } from './video_sync';
+import { notify_user } from './notify';
+
+const db = admin.firestore();
+
+export type SessionEndReason = 'participant' | 'time_limit';
+
+export interface SessionBilling {
+  included_minutes: number;
+  extension_minutes: number;
+  used_minutes: number;
+  overtime_minutes: number;
+  overtime_amount: number;
+  // What will be captured once the customer confirms the outcome
+  final_amount?: number;
+}
+
+function minutes_from_now(minutes: number): admin.firestore.Timestamp {
+  return admin.firestore.Timestamp.fromMillis(Date.now() + minutes * 60 * 1000);
+}
+
+// An approval still 'approving' after this long lost its function run part
+// way through, so it counts as failed and the helper may ask again. Longer
+// than a callable's timeout, so a live approval is never cut short.
+const EXTENSION_APPROVAL_LEASE_MS = 2 * 60 * 1000;
+
+function is_extension_waiting(
+  extension_request: admin.firestore.DocumentData | undefined,
+  now_ms: number
+): boolean {
+  if (extension_request?.status === 'pending') {
+    return true;
+  }
+
+  return extension_request?.status === 'approving' &&
+    extension_request.approving_until?.toMillis() > now_ms;
+}
+
+// Must match the items in the helper's SafetyChecklist component
+const SAFETY_CHECKLIST_ITEMS = ['power', 'water', 'ventilation', 'ppe', 'stable'];
+
+// How long one start_session call has to create the video room before a
+// concurrent call may take over
+const START_LEASE_MS = 60 * 1000;
+const START_POLL_MS = 1000;
+const MAX_START_POLLS = 15;
+
+// Starts the billing clock. Stamped by the server when the session is
+// created, not by the helper's browser.
+function session_clock_fields(): admin.firestore.DocumentData {
+  const { included_minutes } = app_config.sessions;
+
+  return {
+    status: 'active',
+    started_at: admin.firestore.FieldValue.serverTimestamp(),
+    ends_at: minutes_from_now(included_minutes),
+    included_minutes,
+    extension_minutes: 0,
+  };
+}
+
+// Only extension time that was actually used is billed on top of the
+// quoted price, and never more than the customer approved.
+function compute_billing(session_data: admin.firestore.DocumentData, ended_ms: number): SessionBilling {
+  const included_minutes: number = session_data.included_minutes ?? app_config.sessions.included_minutes;
+  const extension_minutes: number = session_data.extension_minutes || 0;
+  const started_ms = session_data.started_at ? session_data.started_at.toMillis() : ended_ms;
+  const used_minutes = Math.ceil(Math.max(0, ended_ms - started_ms) / (60 * 1000));
+  const overtime_minutes = Math.min(Math.max(0, used_minutes - included_minutes), extension_minutes);
+
+  return {
+    included_minutes,
+    extension_minutes,
+    used_minutes,
+    overtime_minutes,
+    overtime_amount: overtime_minutes * app_config.sessions.extension_rate_cents,
+  };
+}
+
+// Ends a session, closes the provider room and works out what to charge.
+// Payment is captured later, once the customer confirms the outcome.
+// Returns null if the session had already ended.
+export async function finish_session(
+  session_id: string,
+  ended_by: string,
+  end_reason: SessionEndReason
+): Promise<SessionBilling | null> {
+  const session_ref = db.collection('sessions').doc(session_id);
+  const ended_ms = Date.now();
+
+  const finished = await db.runTransaction(async (transaction) => {
+    const session_doc = await transaction.get(session_ref);
+    const session_data = session_doc.data();
+
+    if (!session_data || session_data.status === 'ended') {
+      return null;
+    }
+
+    const billing = compute_billing(session_data, ended_ms);
+
+    transaction.update(session_ref, {
+      status: 'ended',
+      ended_at: admin.firestore.Timestamp.fromMillis(ended_ms),
+      ended_by,
+      end_reason,
+      duration: session_data.started_at
+        ? Math.round((ended_ms - session_data.started_at.toMillis()) / 1000)
+        : 0,
+      billing,
+      ...(is_extension_waiting(session_data.extension_request, ended_ms) && {
+        'extension_request.status': 'expired',
+      }),
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return { session_data, billing };
+  });
+
+  if (!finished) {
+    return null;
+  }
+
+  const { session_data, billing } = finished;
+
+  try {
+    await end_provider_session(session_data);
+    // Record the final join and drop times while the room is still known
+    await sync_video_session(session_id, true);
+  } catch (error) {
+    console.error(`Error ending provider session for ${session_id}:`, error);
+  }
+
+  const request_ref = db.collection('requests').doc(session_data.request_id);
+  const request_doc = await request_ref.get();
+  const request_data = request_doc.data();
+
+  if (request_data?.payment_intent_id && request_data.payment_status === 'authorized') {
+    const base_amount: number = request_data.amount_due ?? request_data.amount;
+    const authorized_amount: number = request_data.authorized_amount ?? base_amount;
+    const final_amount = Math.min(authorized_amount, base_amount + billing.overtime_amount);
+
+    await session_ref.update({ 'billing.final_amount': final_amount });
+    await request_ref.update({
+      final_amount,
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    billing.final_amount = final_amount;
+  }
+
+  return billing;
+}
+
+async function get_participant_session(
+  session_id: string,
+  uid: string
+): Promise<admin.firestore.DocumentData> {
+  if (!session_id) {
+    throw new functions.https.HttpsError('invalid-argument', 'Session ID is required');
+  }
+
+  const session_doc = await db.collection('sessions').doc(session_id).get();
+  const session_data = session_doc.data();
+
+  if (!session_data) {
+    throw new functions.https.HttpsError('not-found', 'Session not found');
+  }
+
+  if (session_data.helper_id !== uid && session_data.customer_id !== uid) {
+    throw new functions.https.HttpsError('permission-denied', 'Only session participants can do this');
+  }
+
+  return session_data;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+type StartClaim =
+  | { kind: 'started'; session_id: string }
+  | { kind: 'waiting' }
+  | { kind: 'claimed'; request_data: admin.firestore.DocumentData };
+
+// Checks the request can start and reserves the right to create its video
+// room, so a double click cannot create two rooms
+async function claim_session_start(request_id: string, helper_id: string): Promise<StartClaim> {
+  const request_ref = db.collection('requests').doc(request_id);
+
+  return db.runTransaction(async (transaction) => {
+    const request_doc = await transaction.get(request_ref);
+    const request_data = request_doc.data();
+
+    if (!request_data) {
+      throw new functions.https.HttpsError('not-found', 'Request not found');
+    }
+
+    if (request_data.helper_id !== helper_id) {
+      throw new functions.https.HttpsError('permission-denied', 'Only the assigned helper can start this session');
+    }
+
+    if (request_data.session_id) {
+      return { kind: 'started', session_id: request_data.session_id };
+    }
+
+    if (request_data.status !== 'payment_pending') {
+      throw new functions.https.HttpsError('failed-precondition', 'This request is not ready for a session');
+    }
+
+    if (request_data.payment_status !== 'authorized') {
+      throw new functions.https.HttpsError('failed-precondition', 'The customer has not authorized payment yet');
+    }
+
+    const now = Date.now();
+
+    if (!request_data.zoho_session_id && request_data.session_starting_until > now) {
+      return { kind: 'waiting' };
+    }
+
+    transaction.update(request_ref, { session_starting_until: now + START_LEASE_MS });
+    return { kind: 'claimed', request_data };
+  });
+}
+
+// Replaces the browser creating the video room, the session document and
+// the in_session transition in three separate steps. Safe to retry: a
+// started request returns its session, and a room created by an attempt
+// that failed part-way is reused.
+export const start_session = functions.https.onCall(
+  async (data: { request_id: string; safety_checklist: string[] }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { request_id } = data;
+
+    if (!request_id) {
+      throw new functions.https.HttpsError('invalid-argument', 'Request ID is required');
+    }
+
+    const acknowledged = new Set(data.safety_checklist || []);
+
+    if (!SAFETY_CHECKLIST_ITEMS.every((item) => acknowledged.has(item))) {
+      throw new functions.https.HttpsError('failed-precondition', 'Complete the safety checklist before starting');
+    }
+
+    const helper_id = context.auth.uid;
+    const request_ref = db.collection('requests').doc(request_id);
+    // One session per request, so every attempt writes the same document
+    const session_ref = db.collection('sessions').doc(request_id);
+
+    try {
+      // payment_status alone can lag behind Stripe, so ask Stripe directly
+      // before opening a paid session
+      const request_doc = await request_ref.get();
+      const request_snapshot = request_doc.data();
+
+      if (!request_snapshot) {
+        throw new functions.https.HttpsError('not-found', 'Request not found');
+      }
+
+      if (request_snapshot.helper_id !== helper_id) {
+        throw new functions.https.HttpsError('permission-denied', 'Only the assigned helper can start this session');
+      }
+
+      if (
+        !request_snapshot.session_id &&
+        (!request_snapshot.payment_intent_id || !await ensure_payment_authorized(request_snapshot.payment_intent_id))
+      ) {
+        throw new functions.https.HttpsError('failed-precondition', 'The customer has not authorized payment yet');
+      }
+
+      let claim = await claim_session_start(request_id, helper_id);
+
+      // Another call is creating the room; wait for it rather than racing it
+      for (let poll = 0; claim.kind === 'waiting' && poll < MAX_START_POLLS; poll++) {
+        await sleep(START_POLL_MS);
+        claim = await claim_session_start(request_id, helper_id);
+      }
+
+      if (claim.kind === 'waiting') {
+        throw new functions.https.HttpsError('aborted', 'The session is still starting. Please try again.');
+      }
+
+      if (claim.kind === 'started') {
+        const session_doc = await db.collection('sessions').doc(claim.session_id).get();
+        return { session_id: claim.session_id, provider: session_doc.data()?.video_provider || 'zoho' };
+      }
+
+      const request_data = claim.request_data;
+      let provider_name: string = request_data.video_provider;
+      let video_session_id: string = request_data.zoho_session_id;
+      let customer_url: string = request_data.zoho_customer_url || '';
+
+      if (!video_session_id) {
+        try {
+          const created = await create_provider_session({
+            title: `Help Request: ${request_data.category}`,
+            customer_name: request_data.customer_name,
+            description: request_data.description,
+          });
+
+          provider_name = created.provider_name;
+          video_session_id = created.video_session.session_id;
+          customer_url = created.video_session.customer_url;
+        } catch (error) {
+          await request_ref.update({ session_starting_until: admin.firestore.FieldValue.delete() });
+          throw error;
+        }
+
+        // Recorded straight away so a retry reuses the room instead of
+        // leaving it orphaned
+        await request_ref.update({
+          video_provider: provider_name,
+          zoho_session_id: video_session_id,
+          zoho_customer_url: customer_url,
+        });
+      }
+
+      const session_id = await db.runTransaction(async (transaction) => {
+        const request_doc = await transaction.get(request_ref);
+        const current_data = request_doc.data()!;
+
+        if (current_data.session_id) {
+          return current_data.session_id as string;
+        }
+
+        if (current_data.status !== 'payment_pending' || current_data.payment_status !== 'authorized') {
+          throw new functions.https.HttpsError('failed-precondition', 'This request is no longer ready for a session');
+        }
+
+        const helper_doc = await transaction.get(db.collection('users').doc(helper_id));
+
+        transaction.set(session_ref, {
+          request_id,
+          helper_id,
+          helper_name: helper_doc.data()?.display_name || 'Helper',
+          customer_id: current_data.customer_id,
+          customer_name: current_data.customer_name || '',
+          video_provider: provider_name,
+          zoho_session_id: video_session_id,
+          customer_join_url: customer_url,
+          safety_checklist_completed: true,
+          safety_checklist: SAFETY_CHECKLIST_ITEMS,
+          ...session_clock_fields(),
+          created_at: admin.firestore.FieldValue.serverTimestamp(),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        apply_transition(
+          transaction,
+          request_ref,
+          current_data,
+          'in_session',
+          { id: helper_id, role: 'helper' },
+          'Helper started the session',
+          {
+            session_id: session_ref.id,
+            session_starting_until: admin.firestore.FieldValue.delete(),
+          }
+        );
+
+        return session_ref.id;
+      });
+
+      return { session_id, provider: provider_name };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        // The request moved on (e.g. was cancelled) after the room was made
+        if (error.code === 'failed-precondition') {
+          await release_unused_room(request_id);
+        }
+        throw error;
+      }
+      console.error('Error starting session:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to start session');
+    }
+  }
+);
+
+// Closes a video room created for a request that never reached in_session.
+// Best effort; failures are logged.
+export async function release_unused_room(request_id: string): Promise<void> {
+  try {
+    const request_doc = await db.collection('requests').doc(request_id).get();
+    const request_data = request_doc.data();
+
+    if (!request_data?.zoho_session_id || request_data.session_id || request_data.status === 'payment_pending') {
+      return;
+    }
+
+    await get_video_provider(request_data.video_provider || 'zoho').end_session(request_data.zoho_session_id);
+  } catch (error) {
+    console.error(`Error closing unused video room for ${request_id}:`, error);
+  }
+}
+
+export const end_session = functions.https.onCall(
+  async (data: { session_id: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    await get_participant_session(data.session_id, context.auth.uid);
+
+    try {
+      const billing = await finish_session(data.session_id, context.auth.uid, 'participant');
+
+      return { success: true, billing };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Error ending session:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to end session');
+    }
+  }
+);
+
+export const request_extension = functions.https.onCall(
+  async (data: { session_id: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const session_data = await get_participant_session(data.session_id, context.auth.uid);
+
+    if (session_data.helper_id !== context.auth.uid) {
+      throw new functions.https.HttpsError('permission-denied', 'Only the helper can request more time');
+    }
+
+    if (session_data.status !== 'active') {
+      throw new functions.https.HttpsError('failed-precondition', 'Session is not active');
+    }
+
+    const { extension_minutes, extension_rate_cents, max_extension_minutes } = app_config.sessions;
+
+    if (is_extension_waiting(session_data.extension_request, Date.now())) {
+      throw new functions.https.HttpsError('already-exists', 'An extension is already waiting for the customer');
+    }
+
+    if ((session_data.extension_minutes || 0) + extension_minutes > max_extension_minutes) {
+      throw new functions.https.HttpsError('failed-precondition', 'This session cannot be extended any further');
+    }
+
+    const extension_request = {
+      minutes: extension_minutes,
+      amount: extension_minutes * extension_rate_cents,
+      status: 'pending',
+      requested_at: admin.firestore.Timestamp.now(),
+    };
+
+    try {
+      await db.collection('sessions').doc(data.session_id).update({
+        extension_request,
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      await notify_user(session_data.customer_id, 'extension_requested', {
+        request_id: session_data.request_id,
+        session_id: data.session_id,
+        minutes: extension_request.minutes,
+        amount: extension_request.amount,
+        message: `Your helper asked for ${extension_request.minutes} more minutes.`,
+      });
+
+      return { success: true, extension_request };
+    } catch (error) {
+      console.error('Error requesting extension:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to request extension');
+    }
+  }
+);
+
+// The session may have ended, or the lease lapsed and the helper asked
+// again, while the authorization was being raised
+function is_same_approval(
+  current: admin.firestore.DocumentData | undefined,
+  extension_request: admin.firestore.DocumentData
+): boolean {
+  return current?.status === 'approving' &&
+    current.requested_at.isEqual(extension_request.requested_at);
+}
+
+async function mark_approval_failed(
+  session_ref: admin.firestore.DocumentReference,
+  extension_request: admin.firestore.DocumentData
+): Promise<void> {
+  await db.runTransaction(async (transaction) => {
+    const session_doc = await transaction.get(session_ref);
+
+    if (is_same_approval(session_doc.data()?.extension_request, extension_request)) {
+      transaction.update(session_ref, { 'extension_request.status': 'failed' });
+    }
+  });
+}
+
+export const respond_to_extension = functions.https.onCall(
+  async (data: { session_id: string; approve: boolean }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { session_id, approve } = data;
+    const session_data = await get_participant_session(session_id, context.auth.uid);
+
+    if (session_data.customer_id !== context.auth.uid) {
+      throw new functions.https.HttpsError('permission-denied', 'Only the customer can approve more time');
+    }
+
+    const session_ref = db.collection('sessions').doc(session_id);
+
+    // Move the request out of pending first so a double click cannot raise
+    // the authorization twice
+    const extension_request = await db.runTransaction(async (transaction) => {
+      const session_doc = await transaction.get(session_ref);
+      const current = session_doc.data()!;
+
+      if (current.status !== 'active' || current.extension_request?.status !== 'pending') {
+        throw new functions.https.HttpsError('failed-precondition', 'There is no extension waiting for approval');
+      }
+
+      transaction.update(session_ref, {
+        'extension_request.status': approve ? 'approving' : 'declined',
+        'extension_request.responded_at': admin.firestore.Timestamp.now(),
+        ...(approve && {
+          'extension_request.approving_until': admin.firestore.Timestamp.fromMillis(
+            Date.now() + EXTENSION_APPROVAL_LEASE_MS
+          ),
+        }),
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return current.extension_request;
+    });
+
+    if (!approve) {
+      await notify_user(session_data.helper_id, 'extension_declined', {
+        request_id: session_data.request_id,
+        session_id,
+        message: 'The customer declined the extra time.',
+      });
+
+      return { success: true, approved: false };
+    }
+
+    try {
+      const request_doc = await db.collection('requests').doc(session_data.request_id).get();
+      const request_data = request_doc.data()!;
+
+      if (request_data.payment_intent_id && request_data.payment_status === 'authorized') {
+        const authorized_amount: number =
+          request_data.authorized_amount ?? request_data.amount_due ?? request_data.amount;
+
+        await increase_authorization(
+          request_doc.id,
+          request_data.payment_intent_id,
+          authorized_amount + extension_request.amount
+        );
+      }
+
+      await db.runTransaction(async (transaction) => {
+        const session_doc = await transaction.get(session_ref);
+        const current = session_doc.data()!;
+
+        if (!is_same_approval(current.extension_request, extension_request)) {
+          throw new functions.https.HttpsError('deadline-exceeded', 'The extension expired before it was approved');
+        }
+
+        transaction.update(session_ref, {
+          'extension_request.status': 'approved',
+          extension_minutes: (current.extension_minutes || 0) + extension_request.minutes,
+          ends_at: admin.firestore.Timestamp.fromMillis(
+            current.ends_at.toMillis() + extension_request.minutes * 60 * 1000
+          ),
+          extensions: admin.firestore.FieldValue.arrayUnion({
+            minutes: extension_request.minutes,
+            amount: extension_request.amount,
+            approved_at: admin.firestore.Timestamp.now(),
+          }),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+    } catch (error) {
+      await mark_approval_failed(session_ref, extension_request);
+
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Error approving extension:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to approve extension');
+    }
+
+    await notify_user(session_data.helper_id, 'extension_approved', {
+      request_id: session_data.request_id,
+      session_id,
+      minutes: extension_request.minutes,
+      message: `The customer approved ${extension_request.minutes} more minutes.`,
+    });
+
+    return { success: true, approved: true };
+  }
+);
+
+// Ends sessions that have run past their included and approved time.
+export const enforce_session_limits = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const overdue_query = await db
+      .collection('sessions')
+      .where('status', '==', 'active')
+      .where('ends_at', '<=', admin.firestore.Timestamp.now())
+      .get();
+
+    for (const session_doc of overdue_query.docs) {
+      try {
+        const billing = await finish_session(session_doc.id, 'system', 'time_limit');
+
+        if (!billing) {
+          continue;
+        }
+
+        const session_data = session_doc.data();
+        const fields = {
+          request_id: session_data.request_id,
+          session_id: session_doc.id,
+          message: 'The session reached its time limit and has ended.',
+        };
+
+        await notify_user(session_data.customer_id, 'session_time_limit', fields);
+        await notify_user(session_data.helper_id, 'session_time_limit', fields);
+      } catch (error) {
+        console.error(`Error ending overdue session ${session_doc.id}:`, error);
+      }
+    }
+  });
@@ -0,0 +1,255 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import Stripe from 'stripe';
+import { app_config } from './config';
+
+const db = admin.firestore();
+const stripe = new Stripe(app_config.stripe.secret_key, {
+  apiVersion: '2023-10-16',
+});
+
+export interface ConnectStatus {
+  connected_account_id: string | null;
+  details_submitted: boolean;
+  payouts_enabled: boolean;
+  requirements_due: string[];
+}
+
+// The helper's cut of a session price. Discounts and account credit are
+// funded by the platform, so the split is taken on the undiscounted price.
+export function compute_helper_share(gross_amount: number): { helper_share: number; platform_fee: number } {
+  const platform_fee = Math.round((gross_amount * app_config.payouts.platform_fee_percent) / 100);
+  return { helper_share: gross_amount - platform_fee, platform_fee };
+}
+
+function require_helper(context: functions.https.CallableContext): string {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  if (context.auth.token.role !== 'helper') {
+    throw new functions.https.HttpsError('permission-denied', 'Only helpers can set up payouts');
+  }
+
+  return context.auth.uid;
+}
+
+// Mirrors the account's onboarding state onto the helper's profile, which
+// is what claim_request checks.
+export async function sync_connected_account(account: Stripe.Account): Promise<ConnectStatus> {
+  const status: ConnectStatus = {
+    connected_account_id: account.id,
+    details_submitted: account.details_submitted ?? false,
+    payouts_enabled: account.payouts_enabled ?? false,
+    requirements_due: account.requirements?.currently_due || [],
+  };
+
+  const uid = account.metadata?.uid;
+
+  if (uid) {
+    await db.collection('users').doc(uid).update({
+      payouts_enabled: status.payouts_enabled,
+      payouts_details_submitted: status.details_submitted,
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  return status;
+}
+
+async function get_or_create_connected_account(uid: string): Promise<string> {
+  const user_ref = db.collection('users').doc(uid);
+  const user_doc = await user_ref.get();
+  const user_data = user_doc.data();
+
+  if (user_data?.connected_account_id) {
+    return user_data.connected_account_id;
+  }
+
+  const account = await stripe.accounts.create(
+    {
+      type: 'express',
+      email: user_data?.email || undefined,
+      capabilities: { transfers: { requested: true } },
+      business_profile: { product_description: 'Remote home repair guidance' },
+      metadata: { uid },
+    },
+    { idempotencyKey: `connect-account-${uid}` }
+  );
+
+  await user_ref.update({
+    connected_account_id: account.id,
+    payouts_enabled: false,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return account.id;
+}
+
+// Sends the helper's share of a captured payment to their connected
+// account. The transfer is tied to the charge so it only pays out once the
+// customer's funds settle.
+export async function transfer_helper_share(
+  request_id: string,
+  payment_intent: Stripe.PaymentIntent,
+  captured_amount: number
+): Promise<void> {
+  const request_doc = await db.collection('requests').doc(request_id).get();
+  const request_data = request_doc.data();
+
+  if (!request_data?.helper_id || captured_amount <= 0) {
+    return;
+  }
+
+  const helper_doc = await db.collection('users').doc(request_data.helper_id).get();
+  const connected_account_id: string | undefined = helper_doc.data()?.connected_account_id;
+  const gross_amount = captured_amount + (request_data.promo_discount || 0) + (request_data.credit_applied || 0);
+  const { platform_fee } = compute_helper_share(gross_amount);
+  const helper_share = Math.min(captured_amount, gross_amount - platform_fee);
+
+  // No customer_id: payouts show the helper's share and the platform fee,
+  // which the customer should not see
+  const payout = {
+    type: 'payout',
+    request_id,
+    helper_id: request_data.helper_id,
+    category: request_data.category,
+    payment_intent_id: payment_intent.id,
+    gross_amount,
+    platform_fee,
+    amount: helper_share,
+    created_at: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  if (!connected_account_id) {
+    console.error(`Helper ${request_data.helper_id} has no connected account; payout for ${request_id} held`);
+    await db.collection('payments').add({ ...payout, status: 'held', failure_reason: 'no_connected_account' });
+    return;
+  }
+
+  const charge_id = typeof payment_intent.latest_charge === 'string'
+    ? payment_intent.latest_charge
+    : payment_intent.latest_charge?.id;
+
+  const transfer = await stripe.transfers.create(
+    {
+      amount: helper_share,
+      currency: payment_intent.currency,
+      destination: connected_account_id,
+      transfer_group: request_id,
+      ...(charge_id && { source_transaction: charge_id }),
+      metadata: { request_id, helper_id: request_data.helper_id },
+    },
+    { idempotencyKey: `transfer-${payment_intent.id}` }
+  );
+
+  await db.collection('payments').add({ ...payout, transfer_id: transfer.id, status: 'transferred' });
+}
+
+// Claws back the helper's proportional share when a customer is refunded.
+export async function reverse_helper_share(
+  payment_intent_id: string,
+  refund_amount: number,
+  captured_amount: number
+): Promise<void> {
+  const payouts_query = await db
+    .collection('payments')
+    .where('type', '==', 'payout')
+    .where('payment_intent_id', '==', payment_intent_id)
+    .where('status', '==', 'transferred')
+    .limit(1)
+    .get();
+
+  if (payouts_query.empty) {
+    return;
+  }
+
+  const payout_doc = payouts_query.docs[0];
+  const payout = payout_doc.data();
+  const already_reversed: number = payout.reversed_amount || 0;
+  const reversal_amount = Math.min(
+    Math.round((refund_amount * payout.amount) / captured_amount),
+    payout.amount - already_reversed
+  );
+
+  if (reversal_amount <= 0) {
+    return;
+  }
+
+  await stripe.transfers.createReversal(payout.transfer_id, { amount: reversal_amount });
+
+  await payout_doc.ref.update({
+    reversed_amount: already_reversed + reversal_amount,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+export const create_connect_onboarding_link = functions.https.onCall(
+  async (_data: Record<string, never>, context) => {
+    const uid = require_helper(context);
+
+    try {
+      const account_id = await get_or_create_connected_account(uid);
+
+      const account_link = await stripe.accountLinks.create({
+        account: account_id,
+        refresh_url: `${app_config.app.base_url}/helper/payouts?refresh=1`,
+        return_url: `${app_config.app.base_url}/helper/payouts`,
+        type: 'account_onboarding',
+      });
+
+      return { url: account_link.url };
+    } catch (error) {
+      console.error('Error creating onboarding link:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to start payout setup');
+    }
+  }
+);
+
+export const get_connect_status = functions.https.onCall(
+  async (_data: Record<string, never>, context) => {
+    const uid = require_helper(context);
+
+    const user_doc = await db.collection('users').doc(uid).get();
+    const connected_account_id: string | undefined = user_doc.data()?.connected_account_id;
+
+    if (!connected_account_id) {
+      const status: ConnectStatus = {
+        connected_account_id: null,
+        details_submitted: false,
+        payouts_enabled: false,
+        requirements_due: [],
+      };
+      return status;
+    }
+
+    try {
+      const account = await stripe.accounts.retrieve(connected_account_id);
+      return await sync_connected_account(account);
+    } catch (error) {
+      console.error('Error retrieving connected account:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to load payout status');
+    }
+  }
+);
+
+export const create_connect_dashboard_link = functions.https.onCall(
+  async (_data: Record<string, never>, context) => {
+    const uid = require_helper(context);
+
+    const user_doc = await db.collection('users').doc(uid).get();
+    const connected_account_id: string | undefined = user_doc.data()?.connected_account_id;
+
+    if (!connected_account_id) {
+      throw new functions.https.HttpsError('failed-precondition', 'Payouts have not been set up yet');
+    }
+
+    try {
+      const login_link = await stripe.accounts.createLoginLink(connected_account_id);
+      return { url: login_link.url };
+    } catch (error) {
+      console.error('Error creating dashboard link:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to open payout dashboard');
+    }
+  }
+);
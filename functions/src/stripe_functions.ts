@@ -2,21 +2,367 @@ import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
 import Stripe from 'stripe';
 import { app_config } from './config';
+import { apply_transition, SYSTEM_ACTOR } from './request_lifecycle';
+import {
+  assert_promo_available,
+  build_checkout_summary,
+  record_redemptions,
+  reverse_redemptions,
+} from './promotions';
+import { notify_user } from './notify';
+import { is_admin } from './auth';
+import { reverse_helper_share, sync_connected_account, transfer_helper_share } from './stripe_connect';
+import { issue_receipt, reissue_receipt } from './receipts';
+import { sync_tip_status } from './tips';
 
 const db = admin.firestore();
 const stripe = new Stripe(app_config.stripe.secret_key, {
   apiVersion: '2023-10-16',
 });
 
+// A delivery still marked as processing after this long is assumed to have
+// crashed and may be retried.
+const STALE_EVENT_MS = 5 * 60 * 1000;
+
+export type RefundReason = 'unresolved' | 'helper_no_show' | 'dispute';
+
+const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+  unresolved: 'Your issue was not resolved',
+  helper_no_show: 'Your helper did not join the session',
+  dispute: 'Your dispute was resolved in your favor',
+};
+
+const REFUNDABLE_STATUSES = ['captured', 'partially_refunded'];
+
+// Card authorizations lapse after about seven days. Holds older than this
+// are checked against Stripe's capture deadline, and anything due to lapse
+// within the margin is acted on.
+const AUTHORIZATION_CHECK_AFTER_MS = 5 * 24 * 60 * 60 * 1000;
+const AUTHORIZATION_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+const AUTHORIZATION_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+type ExpiringAuthorizationAction = 'captured' | 'reauthorized' | 'released' | 'voided';
+
+// Redemptions share the payment intent ID, so only the charge record counts.
+// Charges recorded before payments were typed have no type at all.
+async function find_payment_record(
+  payment_intent_id: string
+): Promise<admin.firestore.QueryDocumentSnapshot | null> {
+  const payments_query = await db
+    .collection('payments')
+    .where('payment_intent_id', '==', payment_intent_id)
+    .get();
+
+  const charge_doc = payments_query.docs.find((payment_doc) => {
+    const type = payment_doc.data().type;
+    return type === 'charge' || type === undefined;
+  });
+
+  return charge_doc || null;
+}
+
+async function update_payment_record(
+  payment_intent_id: string,
+  updates: admin.firestore.DocumentData
+): Promise<void> {
+  const payment_doc = await find_payment_record(payment_intent_id);
+
+  if (payment_doc) {
+    await payment_doc.ref.update(updates);
+  }
+}
+
+// Captures an authorized payment (optionally only part of it), syncs the
+// payments and requests documents and pays the helper their share.
+export async function capture_request_payment(
+  request_id: string,
+  payment_intent_id: string,
+  amount_to_capture?: number
+): Promise<void> {
+  // The charge is expanded so the receipt can show the card
+  const payment_intent = await stripe.paymentIntents.capture(payment_intent_id, {
+    ...(amount_to_capture !== undefined && { amount_to_capture }),
+    expand: ['latest_charge'],
+  });
+
+  await update_payment_record(payment_intent_id, {
+    status: 'captured',
+    ...(amount_to_capture !== undefined && { captured_amount: amount_to_capture }),
+    captured_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await db.collection('requests').doc(request_id).update({
+    payment_status: 'captured',
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  // The customer has been charged either way; a failed transfer is logged
+  // for the payouts team rather than failing the capture
+  try {
+    await transfer_helper_share(request_id, payment_intent, payment_intent.amount_received);
+  } catch (error) {
+    console.error(`Error transferring helper share for ${request_id}:`, error);
+  }
+
+  try {
+    await issue_receipt(request_id, payment_intent);
+  } catch (error) {
+    console.error(`Error issuing receipt for ${request_id}:`, error);
+  }
+}
+
+// Raises the authorized amount on a held payment, e.g. when the customer
+// approves a session extension. Not every card supports this; Stripe
+// rejects the increment and the hold stays as it was.
+export async function increase_authorization(
+  request_id: string,
+  payment_intent_id: string,
+  new_amount: number
+): Promise<void> {
+  try {
+    await stripe.paymentIntents.incrementAuthorization(payment_intent_id, { amount: new_amount });
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeError) {
+      console.warn(`Incremental authorization declined for ${payment_intent_id}:`, error.message);
+      throw new functions.https.HttpsError('failed-precondition', 'Your card could not be authorized for the extra time');
+    }
+    throw error;
+  }
+
+  await update_payment_record(payment_intent_id, {
+    authorized_amount: new_amount,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await db.collection('requests').doc(request_id).update({
+    authorized_amount: new_amount,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+// Checks with Stripe that the customer confirmed the card and the hold is
+// in place, recording it if the webhook has not arrived yet.
+export async function ensure_payment_authorized(payment_intent_id: string): Promise<boolean> {
+  const payment_intent = await stripe.paymentIntents.retrieve(payment_intent_id);
+
+  if (payment_intent.status !== 'requires_capture') {
+    return false;
+  }
+
+  await sync_payment_status(payment_intent_id, { status: 'authorized' }, 'authorized', ['pending', 'authorized', 'failed']);
+  return true;
+}
+
+// Voids a hold and gives back any promo and credit it used, without
+// touching the request. Used directly for holds the request has replaced.
+async function void_payment_intent(payment_intent_id: string): Promise<void> {
+  await stripe.paymentIntents.cancel(payment_intent_id);
+
+  await update_payment_record(payment_intent_id, {
+    status: 'cancelled',
+    cancelled_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await reverse_redemptions(payment_intent_id);
+}
+
+// Voids an authorized payment, gives back any promo and credit it used and
+// syncs the payments and requests documents.
+export async function void_request_payment(
+  request_id: string,
+  payment_intent_id: string
+): Promise<void> {
+  await void_payment_intent(payment_intent_id);
+
+  await db.collection('requests').doc(request_id).update({
+    payment_status: 'cancelled',
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+// Releases the card hold on a cancelled request. When a cancellation fee
+// applies and the hold is capturable, the fee is captured instead of voiding.
+// Returns the fee actually charged.
+export async function settle_cancelled_payment(
+  request_id: string,
+  payment_intent_id: string,
+  fee_cents: number
+): Promise<number> {
+  const payment_intent = await stripe.paymentIntents.retrieve(payment_intent_id);
+
+  if (fee_cents > 0 && payment_intent.status === 'requires_capture') {
+    const fee = Math.min(fee_cents, payment_intent.amount_capturable);
+    await capture_request_payment(request_id, payment_intent_id, fee);
+    return fee;
+  }
+
+  if (payment_intent.status !== 'canceled' && payment_intent.status !== 'succeeded') {
+    await void_request_payment(request_id, payment_intent_id);
+  }
+
+  return 0;
+}
+
+// Returns the user's Stripe Customer, creating it on first use. The
+// idempotency key stops two concurrent first payments creating two.
+export async function get_or_create_stripe_customer(uid: string): Promise<string> {
+  const user_ref = db.collection('users').doc(uid);
+  const user_doc = await user_ref.get();
+  const user_data = user_doc.data();
+
+  if (user_data?.stripe_customer_id) {
+    return user_data.stripe_customer_id;
+  }
+
+  const customer = await stripe.customers.create(
+    {
+      email: user_data?.email || undefined,
+      name: user_data?.display_name || undefined,
+      metadata: { uid },
+    },
+    { idempotencyKey: `customer-${uid}` }
+  );
+
+  await user_ref.update({
+    stripe_customer_id: customer.id,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return customer.id;
+}
+
+// Refunds all or part of a captured payment. Used by the refund_payment
+// callable and by automatic policies. Returns the amount refunded.
+export async function refund_request_payment(
+  request_id: string,
+  reason: RefundReason,
+  refunded_by: string,
+  amount?: number
+): Promise<number> {
+  const request_ref = db.collection('requests').doc(request_id);
+  const request_doc = await request_ref.get();
+  const request_data = request_doc.data();
+
+  if (!request_data) {
+    throw new functions.https.HttpsError('not-found', 'Request not found');
+  }
+
+  const payment_intent_id: string | undefined = request_data.payment_intent_id;
+  const payment_doc = payment_intent_id ? await find_payment_record(payment_intent_id) : null;
+
+  if (!payment_intent_id || !payment_doc) {
+    throw new functions.https.HttpsError('failed-precondition', 'No payment found for this request');
+  }
+
+  const payment_data = payment_doc.data();
+
+  if (!REFUNDABLE_STATUSES.includes(payment_data.status)) {
+    throw new functions.https.HttpsError('failed-precondition', 'Only captured payments can be refunded');
+  }
+
+  const captured_amount: number = payment_data.captured_amount ?? payment_data.amount;
+  const refundable = captured_amount - (payment_data.refunded_amount || 0);
+  const refund_amount = amount ?? refundable;
+
+  if (!Number.isInteger(refund_amount) || refund_amount <= 0 || refund_amount > refundable) {
+    throw new functions.https.HttpsError('invalid-argument', `Refund amount must be between 1 and ${refundable} cents`);
+  }
+
+  const refund = await stripe.refunds.create({
+    payment_intent: payment_intent_id,
+    amount: refund_amount,
+    reason: 'requested_by_customer',
+    metadata: { request_id, reason_code: reason, refunded_by },
+  });
+
+  const refunded_amount = captured_amount - refundable + refund_amount;
+  const status = refunded_amount >= captured_amount ? 'refunded' : 'partially_refunded';
+  const batch = db.batch();
+
+  batch.set(db.collection('payments').doc(), {
+    type: 'refund',
+    request_id,
+    customer_id: request_data.customer_id,
+    helper_id: request_data.helper_id || null,
+    payment_intent_id,
+    refund_id: refund.id,
+    amount: refund_amount,
+    reason,
+    refunded_by,
+    status: refund.status,
+    created_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  batch.update(payment_doc.ref, {
+    status,
+    refunded_amount,
+    refunded_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  batch.update(request_ref, {
+    payment_status: status,
+    refunded_amount,
+    refund_reason: reason,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await batch.commit();
+
+  try {
+    await reverse_helper_share(payment_intent_id, refund_amount, captured_amount);
+  } catch (error) {
+    console.error(`Error reversing helper share for ${request_id}:`, error);
+  }
+
+  try {
+    const payment_intent = await stripe.paymentIntents.retrieve(payment_intent_id, { expand: ['latest_charge'] });
+    await reissue_receipt(request_id, payment_intent);
+  } catch (error) {
+    console.error(`Error reissuing receipt for ${request_id}:`, error);
+  }
+
+  await notify_user(request_data.customer_id, 'payment_refunded', {
+    request_id,
+    amount: refund_amount,
+    reason,
+    message: `${REFUND_REASON_LABELS[reason]}, so we refunded $${(refund_amount / 100).toFixed(2)} to your card.`,
+  });
+
+  return refund_amount;
+}
+
+// Voids an earlier checkout attempt the customer never finished so its
+// promo and credit are given back before the new one is priced. Rejects the
+// new checkout when the earlier card hold went through.
+async function release_unconfirmed_payment_intent(payment_intent_id: string): Promise<void> {
+  const payment_intent = await stripe.paymentIntents.retrieve(payment_intent_id);
+
+  if (['requires_capture', 'processing', 'succeeded'].includes(payment_intent.status)) {
+    throw new functions.https.HttpsError('failed-precondition', 'This request has already been paid for');
+  }
+
+  if (payment_intent.status !== 'canceled') {
+    await void_payment_intent(payment_intent_id);
+  }
+}
+
 export const create_payment_intent = functions.https.onCall(
-  async (data: { request_id: string; amount: number; payment_method_id: string }, context) => {
+  async (
+    data: {
+      request_id: string;
+      payment_method_id: string;
+      promo_code?: string;
+      save_payment_method?: boolean;
+    },
+    context
+  ) => {
     if (!context.auth) {
       throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
     }
 
-    const { request_id, amount, payment_method_id } = data;
+    const { request_id, payment_method_id, promo_code, save_payment_method } = data;
 
-    if (!request_id || !amount || !payment_method_id) {
+    if (!request_id || !payment_method_id) {
       throw new functions.https.HttpsError('invalid-argument', 'Missing required parameters');
     }
 
@@ -32,153 +378,522 @@ export const create_payment_intent = functions.https.onCall(
       throw new functions.https.HttpsError('permission-denied', 'Only the customer can pay for this request');
     }
 
+    if (request_data.status !== 'claimed' && request_data.status !== 'payment_pending') {
+      throw new functions.https.HttpsError('failed-precondition', 'Request is not awaiting payment');
+    }
+
+    // The server-stamped price is the starting point; promo and credit are
+    // taken off before the card is authorized
+    if (!request_data.amount) {
+      throw new functions.https.HttpsError('failed-precondition', 'Request has not been priced yet');
+    }
+
+    // A second tab or a retry after a failed confirm replaces the earlier
+    // intent, but a hold the card has already accepted is never doubled
+    const previous_payment_intent_id: string | null = request_data.payment_intent_id || null;
+
+    if (previous_payment_intent_id) {
+      await release_unconfirmed_payment_intent(previous_payment_intent_id);
+    }
+
+    const customer_id = context.auth.uid;
+    const summary = await build_checkout_summary(customer_id, request_data, promo_code);
+    const request_ref = db.collection('requests').doc(request_id);
+    const user_ref = db.collection('users').doc(customer_id);
+    let payment_intent: Stripe.PaymentIntent | null = null;
+
     try {
-      const payment_intent = await stripe.paymentIntents.create({
-        amount,
+      // Saved cards only work with their own customer, and new cards are
+      // attached to it when the customer asks to keep them
+      const stripe_customer_id = await get_or_create_stripe_customer(customer_id);
+
+      payment_intent = await stripe.paymentIntents.create({
+        amount: summary.amount_due,
         currency: 'usd',
+        customer: stripe_customer_id,
         payment_method: payment_method_id,
+        ...(save_payment_method && { setup_future_usage: 'off_session' as const }),
         capture_method: 'manual',
+        // Lets approved session extensions raise the hold
+        payment_method_options: {
+          card: { request_incremental_authorization: 'if_available' },
+        },
         metadata: {
           request_id,
-          customer_id: context.auth.uid,
+          customer_id,
           helper_id: request_data.helper_id || '',
+          promo_code: summary.promo_code || '',
         },
       });
 
-      await db.collection('payments').add({
-        request_id,
-        customer_id: context.auth.uid,
-        helper_id: request_data.helper_id,
-        payment_intent_id: payment_intent.id,
-        amount,
-        status: 'authorized',
-        created_at: admin.firestore.FieldValue.serverTimestamp(),
-      });
+      const payment_intent_id = payment_intent.id;
 
-      await db.collection('requests').doc(request_id).update({
-        payment_intent_id: payment_intent.id,
-        payment_status: 'authorized',
-        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      await db.runTransaction(async (transaction) => {
+        const current_doc = await transaction.get(request_ref);
+        const user_doc = await transaction.get(user_ref);
+        const current_data = current_doc.data()!;
+
+        if ((current_data.payment_intent_id || null) !== previous_payment_intent_id) {
+          throw new functions.https.HttpsError('aborted', 'A payment for this request is already in progress');
+        }
+
+        if ((user_doc.data()?.credit_balance || 0) < summary.credit_applied) {
+          throw new functions.https.HttpsError('aborted', 'Your credit balance changed. Please try again.');
+        }
+
+        await assert_promo_available(transaction, summary, customer_id);
+
+        transaction.set(db.collection('payments').doc(), {
+          type: 'charge',
+          request_id,
+          customer_id,
+          helper_id: request_data.helper_id,
+          category: request_data.category,
+          payment_intent_id,
+          gross_amount: summary.amount,
+          promo_code: summary.promo_code,
+          promo_discount: summary.promo_discount,
+          credit_applied: summary.credit_applied,
+          amount: summary.amount_due,
+          authorized_amount: summary.amount_due,
+          // The customer still has to confirm the card; the
+          // amount_capturable_updated webhook moves this to authorized
+          status: 'pending',
+          created_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        record_redemptions(transaction, summary, { request_id, customer_id, payment_intent_id });
+
+        const payment_updates = {
+          payment_intent_id,
+          payment_status: 'pending',
+          promo_code: summary.promo_code,
+          promo_discount: summary.promo_discount,
+          credit_applied: summary.credit_applied,
+          amount_due: summary.amount_due,
+          authorized_amount: summary.amount_due,
+        };
+
+        if (current_data.status === 'claimed') {
+          apply_transition(
+            transaction,
+            request_ref,
+            current_data,
+            'payment_pending',
+            { id: customer_id, role: 'customer' },
+            'Payment started',
+            payment_updates
+          );
+        } else {
+          transaction.update(request_ref, {
+            ...payment_updates,
+            updated_at: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        }
       });
 
       return {
         client_secret: payment_intent.client_secret,
-        payment_intent_id: payment_intent.id,
+        payment_intent_id,
+        ...summary,
       };
     } catch (error) {
+      // Never leave a hold on the card that the request does not point at
+      if (payment_intent) {
+        await stripe.paymentIntents.cancel(payment_intent.id).catch((cancel_error) => {
+          console.error('Error voiding orphaned payment intent:', cancel_error);
+        });
+      }
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
       console.error('Error creating payment intent:', error);
       throw new functions.https.HttpsError('internal', 'Failed to create payment intent');
     }
   }
 );
 
-export const capture_payment = functions.https.onCall(
-  async (data: { request_id: string }, context) => {
+export const create_setup_intent = functions.https.onCall(
+  async (_data: Record<string, never>, context) => {
     if (!context.auth) {
       throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
     }
 
-    const { request_id } = data;
+    try {
+      const stripe_customer_id = await get_or_create_stripe_customer(context.auth.uid);
 
-    const request_doc = await db.collection('requests').doc(request_id).get();
+      const setup_intent = await stripe.setupIntents.create({
+        customer: stripe_customer_id,
+        payment_method_types: ['card'],
+        usage: 'off_session',
+        metadata: { uid: context.auth.uid },
+      });
 
-    if (!request_doc.exists) {
-      throw new functions.https.HttpsError('not-found', 'Request not found');
+      return { client_secret: setup_intent.client_secret };
+    } catch (error) {
+      console.error('Error creating setup intent:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to start saving card');
     }
+  }
+);
 
-    const request_data = request_doc.data()!;
-
-    if (request_data.helper_id !== context.auth.uid) {
-      throw new functions.https.HttpsError('permission-denied', 'Only the helper can capture payment');
+export const list_payment_methods = functions.https.onCall(
+  async (_data: Record<string, never>, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
     }
 
-    if (!request_data.payment_intent_id) {
-      throw new functions.https.HttpsError('failed-precondition', 'No payment intent found');
+    const user_doc = await db.collection('users').doc(context.auth.uid).get();
+    const stripe_customer_id: string | undefined = user_doc.data()?.stripe_customer_id;
+
+    if (!stripe_customer_id) {
+      return { payment_methods: [] };
     }
 
     try {
-      await stripe.paymentIntents.capture(request_data.payment_intent_id);
+      const payment_methods = await stripe.customers.listPaymentMethods(stripe_customer_id, {
+        type: 'card',
+      });
 
-      const payments_query = await db
-        .collection('payments')
-        .where('payment_intent_id', '==', request_data.payment_intent_id)
-        .limit(1)
-        .get();
+      return {
+        payment_methods: payment_methods.data.map((payment_method) => ({
+          id: payment_method.id,
+          brand: payment_method.card?.brand || 'card',
+          last4: payment_method.card?.last4 || '',
+          exp_month: payment_method.card?.exp_month || 0,
+          exp_year: payment_method.card?.exp_year || 0,
+        })),
+      };
+    } catch (error) {
+      console.error('Error listing payment methods:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to load saved cards');
+    }
+  }
+);
 
-      if (!payments_query.empty) {
-        await payments_query.docs[0].ref.update({
-          status: 'captured',
-          captured_at: admin.firestore.FieldValue.serverTimestamp(),
-        });
+export const detach_payment_method = functions.https.onCall(
+  async (data: { payment_method_id: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { payment_method_id } = data;
+
+    if (!payment_method_id) {
+      throw new functions.https.HttpsError('invalid-argument', 'Payment method ID is required');
+    }
+
+    const user_doc = await db.collection('users').doc(context.auth.uid).get();
+    const stripe_customer_id: string | undefined = user_doc.data()?.stripe_customer_id;
+
+    try {
+      const payment_method = await stripe.paymentMethods.retrieve(payment_method_id);
+
+      if (!stripe_customer_id || payment_method.customer !== stripe_customer_id) {
+        throw new functions.https.HttpsError('permission-denied', 'This card is not saved to your account');
       }
 
-      await db.collection('requests').doc(request_id).update({
-        payment_status: 'captured',
-        updated_at: admin.firestore.FieldValue.serverTimestamp(),
-      });
+      await stripe.paymentMethods.detach(payment_method_id);
 
       return { success: true };
     } catch (error) {
-      console.error('Error capturing payment:', error);
-      throw new functions.https.HttpsError('internal', 'Failed to capture payment');
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Error detaching payment method:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to remove card');
     }
   }
 );
 
-export const cancel_payment = functions.https.onCall(
-  async (data: { request_id: string }, context) => {
+export const refund_payment = functions.https.onCall(
+  async (data: { request_id: string; reason: RefundReason; amount?: number }, context) => {
     if (!context.auth) {
       throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
     }
 
-    const { request_id } = data;
+    if (!is_admin(context)) {
+      throw new functions.https.HttpsError('permission-denied', 'Only admins can issue refunds');
+    }
 
-    const request_doc = await db.collection('requests').doc(request_id).get();
+    const { request_id, reason, amount } = data;
 
-    if (!request_doc.exists) {
-      throw new functions.https.HttpsError('not-found', 'Request not found');
+    if (!request_id || !Object.prototype.hasOwnProperty.call(REFUND_REASON_LABELS, reason)) {
+      throw new functions.https.HttpsError('invalid-argument', 'Request ID and a valid reason are required');
     }
 
-    const request_data = request_doc.data()!;
+    try {
+      const refunded = await refund_request_payment(request_id, reason, context.auth.uid, amount);
+
+      return { success: true, refunded_amount: refunded };
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Error refunding payment:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to refund payment');
+    }
+  }
+);
+
+// Applies a webhook update to the charge record and, while the request is
+// still on this payment intent, mirrors the status onto the request.
+// Returns the payment record, or null when the intent is not ours.
+async function sync_payment_status(
+  payment_intent_id: string,
+  payment_updates: admin.firestore.DocumentData,
+  request_payment_status?: string,
+  only_from?: string[]
+): Promise<admin.firestore.DocumentData | null> {
+  const payment_doc = await find_payment_record(payment_intent_id);
+
+  if (!payment_doc) {
+    console.warn(`No payment record for payment intent ${payment_intent_id}`);
+    return null;
+  }
+
+  const payment_data = payment_doc.data();
+
+  // Stripe does not guarantee delivery order; never move a payment backwards
+  if (only_from && !only_from.includes(payment_data.status)) {
+    return payment_data;
+  }
 
-    if (request_data.customer_id !== context.auth.uid && request_data.helper_id !== context.auth.uid) {
-      throw new functions.https.HttpsError('permission-denied', 'Only participants can cancel payment');
+  await payment_doc.ref.update({
+    ...payment_updates,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  if (request_payment_status) {
+    const request_ref = db.collection('requests').doc(payment_data.request_id);
+    const request_doc = await request_ref.get();
+
+    if (request_doc.data()?.payment_intent_id === payment_intent_id) {
+      await request_ref.update({
+        payment_status: request_payment_status,
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
     }
+  }
 
-    if (!request_data.payment_intent_id) {
-      return { success: true };
+  return payment_data;
+}
+
+// A declined or failed charge hands the request back to the customer to pay
+// again with a fresh hold window.
+async function handle_payment_failed(payment_intent: Stripe.PaymentIntent): Promise<void> {
+  const failure_message = payment_intent.last_payment_error?.message || 'The card was declined';
+  const payment_data = await sync_payment_status(payment_intent.id, {
+    status: 'failed',
+    failure_message,
+    failed_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  if (!payment_data) {
+    return;
+  }
+
+  await reverse_redemptions(payment_intent.id);
+
+  const request_ref = db.collection('requests').doc(payment_data.request_id);
+
+  await db.runTransaction(async (transaction) => {
+    const request_doc = await transaction.get(request_ref);
+    const request_data = request_doc.data();
+
+    if (!request_data || request_data.payment_intent_id !== payment_intent.id) {
+      return;
     }
 
-    try {
-      await stripe.paymentIntents.cancel(request_data.payment_intent_id);
+    const updates = {
+      payment_intent_id: admin.firestore.FieldValue.delete(),
+      payment_status: 'failed',
+      hold_expires_at: admin.firestore.Timestamp.fromMillis(
+        Date.now() + app_config.claims.hold_minutes * 60 * 1000
+      ),
+    };
+
+    if (request_data.status === 'payment_pending') {
+      apply_transition(transaction, request_ref, request_data, 'claimed', SYSTEM_ACTOR, 'Payment failed', updates);
+    } else {
+      transaction.update(request_ref, {
+        ...updates,
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  });
+
+  await notify_user(payment_data.customer_id, 'payment_failed', {
+    request_id: payment_data.request_id,
+    message: `Your payment could not be completed: ${failure_message}. Please try again with another card.`,
+  });
+}
+
+function payment_intent_id_of(object: Stripe.Charge | Stripe.Dispute): string | null {
+  const payment_intent = object.payment_intent;
+  if (!payment_intent) {
+    return null;
+  }
+  return typeof payment_intent === 'string' ? payment_intent : payment_intent.id;
+}
+
+async function handle_stripe_event(event: Stripe.Event): Promise<void> {
+  // Tips are separate payment intents with their own records
+  if (event.type.startsWith('payment_intent.')) {
+    const payment_intent = event.data.object as Stripe.PaymentIntent;
+
+    if (payment_intent.metadata?.type === 'tip') {
+      await sync_tip_status(payment_intent);
+      return;
+    }
+  }
+
+  switch (event.type) {
+    case 'payment_intent.amount_capturable_updated': {
+      const payment_intent = event.data.object as Stripe.PaymentIntent;
+      await sync_payment_status(
+        payment_intent.id,
+        { status: 'authorized' },
+        'authorized',
+        ['pending', 'authorized', 'failed']
+      );
+      break;
+    }
 
-      const payments_query = await db
-        .collection('payments')
-        .where('payment_intent_id', '==', request_data.payment_intent_id)
-        .limit(1)
-        .get();
+    case 'payment_intent.succeeded': {
+      const payment_intent = event.data.object as Stripe.PaymentIntent;
+      await sync_payment_status(
+        payment_intent.id,
+        {
+          status: 'captured',
+          captured_amount: payment_intent.amount_received,
+          captured_at: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        'captured',
+        ['pending', 'authorized', 'failed', 'captured']
+      );
+      break;
+    }
 
-      if (!payments_query.empty) {
-        await payments_query.docs[0].ref.update({
+    case 'payment_intent.canceled': {
+      const payment_intent = event.data.object as Stripe.PaymentIntent;
+      await sync_payment_status(
+        payment_intent.id,
+        {
           status: 'cancelled',
+          cancellation_reason: payment_intent.cancellation_reason || null,
           cancelled_at: admin.firestore.FieldValue.serverTimestamp(),
-        });
+        },
+        'cancelled'
+      );
+      await reverse_redemptions(payment_intent.id);
+      break;
+    }
+
+    case 'payment_intent.payment_failed':
+      await handle_payment_failed(event.data.object as Stripe.PaymentIntent);
+      break;
+
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge;
+      const payment_intent_id = payment_intent_id_of(charge);
+      const status = charge.refunded ? 'refunded' : 'partially_refunded';
+
+      if (payment_intent_id) {
+        await sync_payment_status(
+          payment_intent_id,
+          {
+            status,
+            refunded_amount: charge.amount_refunded,
+            refunded_at: admin.firestore.FieldValue.serverTimestamp(),
+          },
+          status
+        );
       }
+      break;
+    }
 
-      await db.collection('requests').doc(request_id).update({
-        payment_status: 'cancelled',
-        updated_at: admin.firestore.FieldValue.serverTimestamp(),
-      });
+    case 'charge.dispute.created':
+    case 'charge.dispute.updated':
+    case 'charge.dispute.closed':
+    case 'charge.dispute.funds_withdrawn':
+    case 'charge.dispute.funds_reinstated': {
+      const dispute = event.data.object as Stripe.Dispute;
+      const payment_intent_id = payment_intent_id_of(dispute);
 
-      return { success: true };
-    } catch (error) {
-      console.error('Error cancelling payment:', error);
-      throw new functions.https.HttpsError('internal', 'Failed to cancel payment');
+      if (!payment_intent_id) {
+        break;
+      }
+
+      const dispute_updates = {
+        dispute_id: dispute.id,
+        dispute_status: dispute.status,
+        dispute_reason: dispute.reason,
+        dispute_amount: dispute.amount,
+      };
+
+      if (event.type === 'charge.dispute.created') {
+        await sync_payment_status(payment_intent_id, dispute_updates, 'disputed');
+      } else if (event.type === 'charge.dispute.closed') {
+        await sync_payment_status(
+          payment_intent_id,
+          { ...dispute_updates, dispute_closed_at: admin.firestore.FieldValue.serverTimestamp() },
+          dispute.status === 'won' ? 'captured' : 'dispute_lost'
+        );
+      } else {
+        await sync_payment_status(payment_intent_id, dispute_updates);
+      }
+      break;
     }
+
+    case 'account.updated':
+      await sync_connected_account(event.data.object as Stripe.Account);
+      break;
+
+    default:
+      console.log('Unhandled event type:', event.type);
   }
-);
+}
+
+// Claims an event in the stripe_events ledger. Returns false when it has
+// already been processed or another delivery is processing it right now.
+async function begin_stripe_event(event: Stripe.Event): Promise<boolean> {
+  const event_ref = db.collection('stripe_events').doc(event.id);
+
+  return db.runTransaction(async (transaction) => {
+    const event_doc = await transaction.get(event_ref);
+    const event_data = event_doc.data();
+
+    if (event_data?.status === 'processed') {
+      return false;
+    }
 
-export const stripe_webhook = functions.https.onRequest(async (req, res) => {
+    if (
+      event_data?.status === 'processing' &&
+      Date.now() - event_data.started_at.toMillis() < STALE_EVENT_MS
+    ) {
+      return false;
+    }
+
+    transaction.set(event_ref, {
+      type: event.type,
+      livemode: event.livemode,
+      stripe_created_at: admin.firestore.Timestamp.fromMillis(event.created * 1000),
+      status: 'processing',
+      started_at: admin.firestore.Timestamp.now(),
+    });
+
+    return true;
+  });
+}
+
+// Verifies and processes one delivery. Platform and Connect endpoints share
+// the handler and ledger but are signed with different secrets.
+async function receive_stripe_event(
+  req: functions.https.Request,
+  res: functions.Response,
+  webhook_secret: string
+): Promise<void> {
   const sig = req.headers['stripe-signature'];
 
   if (!sig) {
@@ -192,7 +907,7 @@ export const stripe_webhook = functions.https.onRequest(async (req, res) => {
     event = stripe.webhooks.constructEvent(
       req.rawBody,
       sig,
-      app_config.stripe.webhook_secret
+      webhook_secret
     );
   } catch (error) {
     console.error('Webhook signature verification failed:', error);
@@ -200,18 +915,284 @@ export const stripe_webhook = functions.https.onRequest(async (req, res) => {
     return;
   }
 
-  switch (event.type) {
-    case 'payment_intent.succeeded':
-      console.log('Payment succeeded:', event.data.object);
-      break;
+  const event_ref = db.collection('stripe_events').doc(event.id);
 
-    case 'payment_intent.payment_failed':
-      console.log('Payment failed:', event.data.object);
-      break;
+  try {
+    if (!(await begin_stripe_event(event))) {
+      res.json({ received: true, duplicate: true });
+      return;
+    }
 
-    default:
-      console.log('Unhandled event type:', event.type);
+    await handle_stripe_event(event);
+
+    await event_ref.update({
+      status: 'processed',
+      processed_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    console.error(`Error handling Stripe event ${event.id} (${event.type}):`, error);
+    // Drop the claim so Stripe's retry processes the event again
+    await event_ref.delete().catch(() => undefined);
+    res.status(500).send('Webhook handler failed');
+    return;
   }
 
   res.json({ received: true });
-});
+}
+
+export const stripe_webhook = functions.https.onRequest((req, res) =>
+  receive_stripe_event(req, res, app_config.stripe.webhook_secret)
+);
+
+// account.updated is only delivered to a Connect endpoint, so helpers'
+// payout status depends on this one being registered in Stripe
+export const stripe_connect_webhook = functions.https.onRequest((req, res) =>
+  receive_stripe_event(req, res, app_config.stripe.connect_webhook_secret)
+);
+
+// Places a fresh hold for the same amount on the customer's saved card and
+// moves the payment, its redemptions and the request over to it. Only
+// possible when the card was saved to a Stripe customer.
+async function reauthorize_payment(
+  payment_doc: admin.firestore.QueryDocumentSnapshot,
+  payment_intent: Stripe.PaymentIntent
+): Promise<boolean> {
+  const customer = payment_intent.customer;
+  const payment_method = payment_intent.payment_method;
+
+  if (!customer || !payment_method) {
+    return false;
+  }
+
+  let replacement: Stripe.PaymentIntent;
+
+  try {
+    replacement = await stripe.paymentIntents.create({
+      amount: payment_intent.amount,
+      currency: payment_intent.currency,
+      customer: typeof customer === 'string' ? customer : customer.id,
+      payment_method: typeof payment_method === 'string' ? payment_method : payment_method.id,
+      capture_method: 'manual',
+      off_session: true,
+      confirm: true,
+      payment_method_options: {
+        card: { request_incremental_authorization: 'if_available' },
+      },
+      metadata: { ...payment_intent.metadata, replaces_payment_intent_id: payment_intent.id },
+    });
+  } catch (error) {
+    console.warn(`Re-authorization failed for ${payment_intent.id}:`, error);
+    return false;
+  }
+
+  if (replacement.status !== 'requires_capture') {
+    await stripe.paymentIntents.cancel(replacement.id).catch(() => undefined);
+    return false;
+  }
+
+  const payment_data = payment_doc.data();
+  const redemptions_query = await db
+    .collection('payments')
+    .where('payment_intent_id', '==', payment_intent.id)
+    .where('status', '==', 'redeemed')
+    .get();
+
+  const batch = db.batch();
+
+  batch.set(db.collection('payments').doc(), {
+    ...payment_data,
+    payment_intent_id: replacement.id,
+    replaces_payment_intent_id: payment_intent.id,
+    status: 'authorized',
+    created_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  batch.update(payment_doc.ref, {
+    status: 'reauthorized',
+    replaced_by_payment_intent_id: replacement.id,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  redemptions_query.docs.forEach((redemption_doc) => {
+    batch.update(redemption_doc.ref, { payment_intent_id: replacement.id });
+  });
+
+  batch.update(db.collection('requests').doc(payment_data.request_id), {
+    payment_intent_id: replacement.id,
+    payment_status: 'authorized',
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await batch.commit();
+
+  // The old intent's canceled webhook finds no redemptions left to reverse
+  await stripe.paymentIntents.cancel(payment_intent.id).catch((error) => {
+    console.error(`Error cancelling replaced payment intent ${payment_intent.id}:`, error);
+  });
+
+  return true;
+}
+
+// Statuses where the customer has not confirmed the job yet, so the hold is
+// renewed rather than captured
+const REAUTHORIZABLE_STATUSES = ['payment_pending', 'in_session', 'awaiting_confirmation', 'disputed'];
+
+// Confirmed work is charged; a job not confirmed yet gets a fresh hold;
+// anything else is released.
+async function resolve_expiring_authorization(
+  payment_doc: admin.firestore.QueryDocumentSnapshot,
+  payment_intent: Stripe.PaymentIntent,
+  request_ref: admin.firestore.DocumentReference,
+  request_data: admin.firestore.DocumentData
+): Promise<ExpiringAuthorizationAction> {
+  const can_reauthorize = REAUTHORIZABLE_STATUSES.includes(request_data.status);
+
+  if (can_reauthorize && await reauthorize_payment(payment_doc, payment_intent)) {
+    return 'reauthorized';
+  }
+
+  // A completed job that the guarantee waived was voided when it completed.
+  // Work already done whose card cannot be held again is charged as a last
+  // resort; the guarantee and support flows refund from a captured payment.
+  if (['in_session', 'awaiting_confirmation', 'completed'].includes(request_data.status)) {
+    const base_amount: number = request_data.guarantee?.charge_amount
+      ?? request_data.final_amount ?? request_data.amount_due ?? request_data.amount;
+    await capture_request_payment(
+      request_ref.id,
+      payment_intent.id,
+      Math.min(payment_intent.amount_capturable, base_amount)
+    );
+    return 'captured';
+  }
+
+  await void_request_payment(request_ref.id, payment_intent.id);
+
+  if (request_data.status !== 'payment_pending') {
+    return 'voided';
+  }
+
+  await db.runTransaction(async (transaction) => {
+    const current_doc = await transaction.get(request_ref);
+    const current_data = current_doc.data()!;
+
+    if (current_data.status !== 'payment_pending' || current_data.payment_intent_id !== payment_intent.id) {
+      return;
+    }
+
+    apply_transition(
+      transaction,
+      request_ref,
+      current_data,
+      'claimed',
+      SYSTEM_ACTOR,
+      'Card authorization expired',
+      {
+        payment_intent_id: admin.firestore.FieldValue.delete(),
+        hold_expires_at: admin.firestore.Timestamp.fromMillis(
+          Date.now() + app_config.claims.hold_minutes * 60 * 1000
+        ),
+      }
+    );
+  });
+
+  return 'released';
+}
+
+const EXPIRING_AUTHORIZATION_MESSAGES: Record<ExpiringAuthorizationAction, { customer: string; helper: string }> = {
+  captured: {
+    customer: 'Card holds expire after seven days, so we have charged your card for this session.',
+    helper: 'The customer\'s card hold was about to expire, so payment for this job has been collected.',
+  },
+  reauthorized: {
+    customer: 'Card holds expire after seven days, so we renewed the hold on your saved card. You have not been charged.',
+    helper: 'The customer\'s card hold was renewed. No action is needed.',
+  },
+  released: {
+    customer: 'The hold on your card expired and has been released. Please pay again to keep your booking.',
+    helper: 'The customer\'s card hold expired. They have been asked to pay again.',
+  },
+  voided: {
+    customer: 'The hold on your card has been released. You have not been charged.',
+    helper: 'The customer\'s card hold for this job has been released.',
+  },
+};
+
+// Stops manual-capture holds from silently lapsing on long-running jobs.
+export const refresh_expiring_authorizations = functions.pubsub
+  .schedule('every 1 hours')
+  .onRun(async () => {
+    // Not filtered on type: charges recorded before payments were typed have
+    // none, and no other record type is ever authorized
+    const payments_query = await db
+      .collection('payments')
+      .where('status', '==', 'authorized')
+      .where('created_at', '<=', admin.firestore.Timestamp.fromMillis(Date.now() - AUTHORIZATION_CHECK_AFTER_MS))
+      .get();
+
+    for (const payment_doc of payments_query.docs) {
+      const payment_data = payment_doc.data();
+
+      if (payment_data.type !== undefined && payment_data.type !== 'charge') {
+        continue;
+      }
+
+      try {
+        const payment_intent = await stripe.paymentIntents.retrieve(payment_data.payment_intent_id, {
+          expand: ['latest_charge'],
+        });
+
+        // Captured or cancelled elsewhere; the webhook syncs the record
+        if (payment_intent.status !== 'requires_capture') {
+          continue;
+        }
+
+        const charge = payment_intent.latest_charge as Stripe.Charge | null;
+        const capture_before = charge?.payment_method_details?.card?.capture_before;
+        const expires_ms = capture_before
+          ? capture_before * 1000
+          : payment_data.created_at.toMillis() + AUTHORIZATION_LIFETIME_MS;
+
+        if (expires_ms - Date.now() > AUTHORIZATION_MARGIN_MS) {
+          continue;
+        }
+
+        const request_ref = db.collection('requests').doc(payment_data.request_id);
+        const request_doc = await request_ref.get();
+
+        // A hold the request has since replaced must never be captured on
+        // top of the current one
+        if (request_doc.data()?.payment_intent_id !== payment_intent.id) {
+          await void_payment_intent(payment_intent.id);
+          console.log(`Voided replaced authorization ${payment_intent.id} for ${payment_data.request_id}`);
+          continue;
+        }
+
+        const action = await resolve_expiring_authorization(
+          payment_doc,
+          payment_intent,
+          request_ref,
+          request_doc.data() || {}
+        );
+
+        const messages = EXPIRING_AUTHORIZATION_MESSAGES[action];
+
+        await notify_user(payment_data.customer_id, 'authorization_expiring', {
+          request_id: payment_data.request_id,
+          action,
+          message: messages.customer,
+        });
+
+        if (payment_data.helper_id) {
+          await notify_user(payment_data.helper_id, 'authorization_expiring', {
+            request_id: payment_data.request_id,
+            action,
+            message: messages.helper,
+          });
+        }
+
+        console.log(`Expiring authorization ${payment_intent.id} for ${payment_data.request_id}: ${action}`);
+      } catch (error) {
+        console.error(`Error handling expiring authorization ${payment_doc.id}:`, error);
+      }
+    }
+  });
@@ -0,0 +1,210 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import Stripe from 'stripe';
+import { app_config } from './config';
+import { notify_user } from './notify';
+
+const db = admin.firestore();
+const stripe = new Stripe(app_config.stripe.secret_key, {
+  apiVersion: '2023-10-16',
+});
+
+const MIN_TIP_CENTS = 100;
+const MAX_TIP_CENTS = 20000;
+
+// Stripe statuses that still need the customer to authenticate the card
+const TIP_ACTION_STATUSES = ['requires_action', 'requires_confirmation'];
+
+function tip_status_of(payment_intent: Stripe.PaymentIntent): string {
+  if (payment_intent.status === 'succeeded') return 'succeeded';
+  if (payment_intent.status === 'canceled') return 'cancelled';
+  if (payment_intent.status === 'requires_payment_method') return 'failed';
+  return TIP_ACTION_STATUSES.includes(payment_intent.status) ? 'requires_action' : 'processing';
+}
+
+// Mirrors a tip's PaymentIntent onto its payments record and the request.
+// Called when the tip is created and from the Stripe webhook.
+export async function sync_tip_status(payment_intent: Stripe.PaymentIntent): Promise<void> {
+  const tips_query = await db
+    .collection('payments')
+    .where('type', '==', 'tip')
+    .where('payment_intent_id', '==', payment_intent.id)
+    .limit(1)
+    .get();
+
+  if (tips_query.empty) {
+    console.warn(`No tip record for payment intent ${payment_intent.id}`);
+    return;
+  }
+
+  const tip_doc = tips_query.docs[0];
+  const tip_data = tip_doc.data();
+  const status = tip_status_of(payment_intent);
+
+  // Never move a settled tip backwards on a late webhook
+  if (tip_data.status === status || tip_data.status === 'succeeded') {
+    return;
+  }
+
+  const batch = db.batch();
+
+  batch.update(tip_doc.ref, {
+    status,
+    ...(status === 'succeeded' && { succeeded_at: admin.firestore.FieldValue.serverTimestamp() }),
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  batch.update(db.collection('requests').doc(tip_data.request_id), {
+    tip_status: status,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await batch.commit();
+
+  if (status === 'succeeded') {
+    await notify_user(tip_data.helper_id, 'tip_received', {
+      request_id: tip_data.request_id,
+      amount: tip_data.amount,
+      message: `Your customer left you a $${(tip_data.amount / 100).toFixed(2)} tip!`,
+    });
+  }
+}
+
+// Charges a tip on the card used for the session. Tips are destination
+// charges, so the whole amount goes to the helper's connected account.
+export const create_tip = functions.https.onCall(
+  async (data: { request_id: string; amount: number }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { request_id, amount } = data;
+
+    if (!request_id || !Number.isInteger(amount) || amount < MIN_TIP_CENTS || amount > MAX_TIP_CENTS) {
+      throw new functions.https.HttpsError(
+        'invalid-argument',
+        `Tips must be between $${MIN_TIP_CENTS / 100} and $${MAX_TIP_CENTS / 100}`
+      );
+    }
+
+    const customer_id = context.auth.uid;
+    const request_ref = db.collection('requests').doc(request_id);
+
+    // Claim the request's single tip slot so a double click cannot charge twice
+    const request_data = await db.runTransaction(async (transaction) => {
+      const request_doc = await transaction.get(request_ref);
+      const current_data = request_doc.data();
+
+      if (!current_data) {
+        throw new functions.https.HttpsError('not-found', 'Request not found');
+      }
+
+      if (current_data.customer_id !== customer_id) {
+        throw new functions.https.HttpsError('permission-denied', 'Only the customer can tip on this request');
+      }
+
+      if (current_data.status !== 'completed' || !current_data.helper_id || !current_data.payment_intent_id) {
+        throw new functions.https.HttpsError('failed-precondition', 'Tips can only be left after a paid session');
+      }
+
+      if (current_data.tip_status && current_data.tip_status !== 'failed') {
+        throw new functions.https.HttpsError('already-exists', 'You have already tipped for this session');
+      }
+
+      transaction.update(request_ref, {
+        tip_status: 'processing',
+        tip_amount: amount,
+        tip_attempts: admin.firestore.FieldValue.increment(1),
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return current_data;
+    });
+
+    let payment_intent: Stripe.PaymentIntent | null = null;
+
+    try {
+      const helper_doc = await db.collection('users').doc(request_data.helper_id).get();
+      const connected_account_id: string | undefined = helper_doc.data()?.connected_account_id;
+
+      if (!connected_account_id) {
+        throw new functions.https.HttpsError('failed-precondition', 'This helper cannot receive tips yet');
+      }
+
+      const session_payment = await stripe.paymentIntents.retrieve(request_data.payment_intent_id);
+      const payment_method = session_payment.payment_method;
+      const customer = session_payment.customer;
+
+      if (!payment_method || !customer) {
+        throw new functions.https.HttpsError('failed-precondition', 'The card used for this session is not available');
+      }
+
+      payment_intent = await stripe.paymentIntents.create(
+        {
+          amount,
+          currency: session_payment.currency,
+          customer: typeof customer === 'string' ? customer : customer.id,
+          payment_method: typeof payment_method === 'string' ? payment_method : payment_method.id,
+          confirm: true,
+          transfer_data: { destination: connected_account_id },
+          description: 'Tip for your HomePro Assist helper',
+          metadata: {
+            type: 'tip',
+            request_id,
+            customer_id,
+            helper_id: request_data.helper_id,
+          },
+        },
+        { idempotencyKey: `tip-${request_id}-${(request_data.tip_attempts || 0) + 1}` }
+      );
+
+      await db.collection('payments').add({
+        type: 'tip',
+        request_id,
+        customer_id,
+        helper_id: request_data.helper_id,
+        category: request_data.category,
+        payment_intent_id: payment_intent.id,
+        amount,
+        status: 'processing',
+        created_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      await sync_tip_status(payment_intent);
+
+      return {
+        status: tip_status_of(payment_intent),
+        client_secret: payment_intent.client_secret,
+      };
+    } catch (error) {
+      // Once Stripe has taken the tip, a retry would charge again under a new
+      // idempotency key, so the slot keeps the intent's status instead
+      if (payment_intent && tip_status_of(payment_intent) !== 'failed') {
+        console.error(`Error recording tip ${payment_intent.id} for ${request_id}:`, error);
+        await request_ref.update({ tip_status: tip_status_of(payment_intent) });
+
+        return {
+          status: tip_status_of(payment_intent),
+          client_secret: payment_intent.client_secret,
+        };
+      }
+
+      // Nothing was charged; free the slot so the customer can try again
+      await request_ref.update({ tip_status: 'failed' });
+
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      if (error instanceof Stripe.errors.StripeCardError) {
+        throw new functions.https.HttpsError('failed-precondition', error.message);
+      }
+      if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+        // Cards that were not saved cannot be charged a second time
+        console.warn(`Tip could not reuse the session card for ${request_id}:`, error.message);
+        throw new functions.https.HttpsError('failed-precondition', 'The card used for this session cannot be charged again');
+      }
+      console.error('Error creating tip:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to send tip');
+    }
+  }
+);
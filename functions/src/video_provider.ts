@@ -0,0 +1,183 @@
+import * as admin from 'firebase-admin';
+import { app_config } from './config';
+import { zoho_lens_provider } from './zoho_lens';
+
+const db = admin.firestore();
+
+export type VideoParticipantRole = 'technician' | 'customer';
+export type VideoSessionStatus = 'waiting' | 'active' | 'ended' | 'unknown';
+
+export interface VideoSessionDetails {
+  title: string;
+  customer_name: string;
+  description: string;
+}
+
+export interface VideoSession {
+  session_id: string;
+  technician_url: string;
+  customer_url: string;
+}
+
+// Epoch milliseconds, as reported by the provider
+export interface VideoParticipant {
+  role: VideoParticipantRole;
+  joined_at: number | null;
+  left_at: number | null;
+}
+
+export interface VideoSessionState {
+  status: VideoSessionStatus;
+  started_at: number | null;
+  ended_at: number | null;
+  participants: VideoParticipant[];
+}
+
+export const UNKNOWN_VIDEO_STATE: VideoSessionState = {
+  status: 'unknown',
+  started_at: null,
+  ended_at: null,
+  participants: [],
+};
+
+// The video layer as the rest of the backend sees it. Pick one with the
+// video.provider config value; add new backends to VIDEO_PROVIDERS.
+export interface VideoProvider {
+  create_session(details: VideoSessionDetails): Promise<VideoSession>;
+  end_session(session_id: string): Promise<void>;
+  get_session_state(session_id: string): Promise<VideoSessionState>;
+  get_participant_url(session_id: string, role: VideoParticipantRole): Promise<string>;
+}
+
+// For the emulators and local development. Sessions are plain Firestore
+// documents and the join links open a placeholder room in the web app.
+// Fetching a participant's link counts as that participant joining.
+const mock_provider: VideoProvider = {
+  async create_session(details) {
+    const session_ref = db.collection('mock_video_sessions').doc();
+
+    await session_ref.set({
+      ...details,
+      status: 'waiting',
+      created_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return {
+      session_id: session_ref.id,
+      technician_url: mock_room_url(session_ref.id, 'technician'),
+      customer_url: mock_room_url(session_ref.id, 'customer'),
+    };
+  },
+
+  async end_session(session_id) {
+    await db.collection('mock_video_sessions').doc(session_id).update({
+      status: 'ended',
+      ended_at: Date.now(),
+    });
+  },
+
+  async get_session_state(session_id) {
+    const session_doc = await db.collection('mock_video_sessions').doc(session_id).get();
+    const session_data = session_doc.data();
+
+    if (!session_data) {
+      return UNKNOWN_VIDEO_STATE;
+    }
+
+    const ended_at: number | null = session_data.ended_at || null;
+    const joined: Partial<Record<VideoParticipantRole, number>> = session_data.joined || {};
+
+    return {
+      status: session_data.status,
+      started_at: session_data.started_at || null,
+      ended_at,
+      participants: (Object.keys(joined) as VideoParticipantRole[]).map((role) => ({
+        role,
+        joined_at: joined[role]!,
+        left_at: ended_at,
+      })),
+    };
+  },
+
+  async get_participant_url(session_id, role) {
+    const session_ref = db.collection('mock_video_sessions').doc(session_id);
+
+    // Like a real room, the video starts once both sides are in
+    await db.runTransaction(async (transaction) => {
+      const session_doc = await transaction.get(session_ref);
+      const session_data = session_doc.data();
+
+      if (!session_data || session_data.status === 'ended' || session_data.joined?.[role]) {
+        return;
+      }
+
+      const now = Date.now();
+      const joined = { ...session_data.joined, [role]: now };
+      const both_joined = Boolean(joined.technician && joined.customer);
+
+      transaction.update(session_ref, {
+        joined,
+        ...(both_joined && { status: 'active', started_at: now }),
+      });
+    });
+
+    return mock_room_url(session_id, role);
+  },
+};
+
+// Peer-to-peer video built into the session pages, signalled through
+// sessions/{id}/signaling. Used when the configured provider is down, so it
+// must not depend on anything outside Firestore. There is no join link.
+const webrtc_provider: VideoProvider = {
+  async create_session() {
+    const session_id = db.collection('sessions').doc().id;
+    return { session_id, technician_url: '', customer_url: '' };
+  },
+
+  async end_session() {
+    // Nothing to tear down; the browsers hang up when the session ends
+  },
+
+  async get_session_state() {
+    return UNKNOWN_VIDEO_STATE;
+  },
+
+  async get_participant_url() {
+    return '';
+  },
+};
+
+function mock_room_url(session_id: string, role: VideoParticipantRole): string {
+  return `${app_config.app.base_url}/video/mock/${session_id}?role=${role}`;
+}
+
+const VIDEO_PROVIDERS: Record<string, VideoProvider> = {
+  zoho: zoho_lens_provider,
+  mock: mock_provider,
+  webrtc: webrtc_provider,
+};
+
+// Used when the configured provider fails to create a session
+export const FALLBACK_VIDEO_PROVIDER = 'webrtc';
+
+// Sessions remember which provider created them, so they can still be
+// ended after the configured provider changes.
+export function get_video_provider(name: string = app_config.video.provider): VideoProvider {
+  // Own keys only, so a name like 'constructor' is not taken for a provider
+  if (!Object.prototype.hasOwnProperty.call(VIDEO_PROVIDERS, name)) {
+    console.error(`Unknown video provider "${name}", falling back to zoho`);
+    return zoho_lens_provider;
+  }
+
+  return VIDEO_PROVIDERS[name];
+}
+
+// Best-effort teardown used when a session finishes or its request is
+// cancelled. Sessions created before providers were recorded are Zoho's.
+export async function end_provider_session(session_data: admin.firestore.DocumentData): Promise<void> {
+  if (!session_data.zoho_session_id) {
+    return;
+  }
+
+  await get_video_provider(session_data.video_provider || 'zoho').end_session(session_data.zoho_session_id);
+}
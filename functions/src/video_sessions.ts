@@ -0,0 +1,94 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { app_config } from './config';
+import {
+  FALLBACK_VIDEO_PROVIDER,
+  get_video_provider,
+  VideoParticipantRole,
+  VideoSession,
+  VideoSessionDetails,
+} from './video_provider';
+import { ZohoTokenRevokedError } from './zoho_auth';
+
+const db = admin.firestore();
+
+// Tries the configured provider first so a Zoho outage or bad credentials
+// degrade to built-in video instead of blocking the job.
+export async function create_provider_session(
+  details: VideoSessionDetails
+): Promise<{ provider_name: string; video_session: VideoSession }> {
+  const provider_name = app_config.video.provider;
+
+  try {
+    const video_session = await get_video_provider(provider_name).create_session(details);
+    return { provider_name, video_session };
+  } catch (error) {
+    if (provider_name === FALLBACK_VIDEO_PROVIDER) {
+      throw error;
+    }
+
+    if (error instanceof ZohoTokenRevokedError) {
+      console.error(`${error.message}. Falling back to ${FALLBACK_VIDEO_PROVIDER} until it is replaced.`);
+    } else {
+      console.error(`Video provider "${provider_name}" failed, falling back to ${FALLBACK_VIDEO_PROVIDER}:`, error);
+    }
+
+    const video_session = await get_video_provider(FALLBACK_VIDEO_PROVIDER).create_session(details);
+    return { provider_name: FALLBACK_VIDEO_PROVIDER, video_session };
+  }
+}
+
+// Returns the link the caller should open to join the video, which differs
+// between the helper's console and the customer's view.
+export const get_video_participant_url = functions.https.onCall(
+  async (data: { session_id: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { session_id } = data;
+
+    if (!session_id) {
+      throw new functions.https.HttpsError('invalid-argument', 'Session ID is required');
+    }
+
+    const session_doc = await db.collection('sessions').doc(session_id).get();
+    const session_data = session_doc.data();
+
+    if (!session_data) {
+      throw new functions.https.HttpsError('not-found', 'Session not found');
+    }
+
+    let role: VideoParticipantRole;
+
+    if (session_data.helper_id === context.auth.uid) {
+      role = 'technician';
+    } else if (session_data.customer_id === context.auth.uid) {
+      role = 'customer';
+    } else {
+      throw new functions.https.HttpsError('permission-denied', 'Only session participants can join the session');
+    }
+
+    if (!session_data.zoho_session_id) {
+      throw new functions.https.HttpsError('failed-precondition', 'The video session has not been created yet');
+    }
+
+    if (session_data.status === 'ended') {
+      throw new functions.https.HttpsError('failed-precondition', 'This session has ended');
+    }
+
+    try {
+      const provider = get_video_provider(session_data.video_provider || 'zoho');
+      const url = await provider.get_participant_url(session_data.zoho_session_id, role);
+
+      return { url, role };
+    } catch (error) {
+      if (error instanceof ZohoTokenRevokedError) {
+        console.error(error.message);
+        throw new functions.https.HttpsError('unavailable', 'Video sessions are temporarily unavailable');
+      }
+      console.error('Error fetching video participant URL:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to get the session link');
+    }
+  }
+);
@@ -0,0 +1,208 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  get_video_provider,
+  VideoParticipant,
+  VideoParticipantRole,
+  VideoSessionState,
+} from './video_provider';
+import { ZohoTokenRevokedError } from './zoho_auth';
+
+const db = admin.firestore();
+
+// However many pages are polling, each session hits the provider at most
+// this often
+const MIN_SYNC_INTERVAL_MS = 10 * 1000;
+
+const PARTICIPANT_ROLES: VideoParticipantRole[] = ['technician', 'customer'];
+
+export type VideoEventType = 'started' | 'ended' | 'joined' | 'left';
+
+interface VideoEvent {
+  type: VideoEventType;
+  role: VideoParticipantRole | null;
+  at: number;
+}
+
+function to_timestamp(millis: number | null): admin.firestore.Timestamp | null {
+  return millis === null ? null : admin.firestore.Timestamp.fromMillis(millis);
+}
+
+function to_millis(timestamp: admin.firestore.Timestamp | null | undefined): number | null {
+  return timestamp ? timestamp.toMillis() : null;
+}
+
+// People who drop out and rejoin are listed once per visit; the latest
+// visit is the one that says whether they are in the call now
+function latest_visits(participants: VideoParticipant[]): Partial<Record<VideoParticipantRole, VideoParticipant>> {
+  const latest: Partial<Record<VideoParticipantRole, VideoParticipant>> = {};
+
+  for (const participant of participants) {
+    const current = latest[participant.role];
+
+    if (!current || (participant.joined_at || 0) >= (current.joined_at || 0)) {
+      latest[participant.role] = participant;
+    }
+  }
+
+  return latest;
+}
+
+// What changed since the last sync, so each join or drop is logged once
+function diff_events(
+  previous: admin.firestore.DocumentData | undefined,
+  state: VideoSessionState,
+  visits: Partial<Record<VideoParticipantRole, VideoParticipant>>
+): VideoEvent[] {
+  const events: VideoEvent[] = [];
+
+  if (state.started_at && !previous?.started_at) {
+    events.push({ type: 'started', role: null, at: state.started_at });
+  }
+
+  for (const role of PARTICIPANT_ROLES) {
+    const visit = visits[role];
+    const previous_visit = previous?.participants?.[role];
+
+    if (visit?.joined_at && visit.joined_at !== to_millis(previous_visit?.joined_at)) {
+      events.push({ type: 'joined', role, at: visit.joined_at });
+    }
+
+    if (visit?.left_at && visit.left_at !== to_millis(previous_visit?.left_at)) {
+      events.push({ type: 'left', role, at: visit.left_at });
+    }
+  }
+
+  if (state.ended_at && !previous?.ended_at) {
+    events.push({ type: 'ended', role: null, at: state.ended_at });
+  }
+
+  return events;
+}
+
+// Copies the provider's view of a session (whether the video started, who
+// joined and when they dropped) onto sessions/{id}.video and logs each change
+// to sessions/{id}/video_events. The top-level started_at, ended_at and
+// duration fields are the billing clock and are left alone.
+export async function sync_video_session(session_id: string, force = false): Promise<void> {
+  const session_ref = db.collection('sessions').doc(session_id);
+  const session_doc = await session_ref.get();
+  const session_data = session_doc.data();
+
+  if (!session_data?.zoho_session_id) {
+    return;
+  }
+
+  const synced_ms = to_millis(session_data.video?.synced_at);
+
+  if (!force && synced_ms !== null && Date.now() - synced_ms < MIN_SYNC_INTERVAL_MS) {
+    return;
+  }
+
+  const provider = get_video_provider(session_data.video_provider || 'zoho');
+  const state = await provider.get_session_state(session_data.zoho_session_id);
+
+  // Providers without status reporting, such as built-in video
+  if (state.status === 'unknown') {
+    return;
+  }
+
+  const visits = latest_visits(state.participants);
+
+  await db.runTransaction(async (transaction) => {
+    const current_doc = await transaction.get(session_ref);
+    const previous = current_doc.data()?.video;
+    const events = diff_events(previous, state, visits);
+    const participants: admin.firestore.DocumentData = {};
+
+    for (const role of PARTICIPANT_ROLES) {
+      const visit = visits[role];
+
+      participants[role] = {
+        joined_at: to_timestamp(visit?.joined_at ?? null),
+        left_at: to_timestamp(visit?.left_at ?? null),
+        connected: Boolean(visit?.joined_at && !visit.left_at && state.status !== 'ended'),
+      };
+    }
+
+    transaction.update(session_ref, {
+      video: {
+        status: state.status,
+        started_at: to_timestamp(state.started_at),
+        ended_at: to_timestamp(state.ended_at),
+        duration: state.started_at && state.ended_at
+          ? Math.round((state.ended_at - state.started_at) / 1000)
+          : null,
+        participants,
+        synced_at: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    });
+
+    for (const event of events) {
+      transaction.set(session_ref.collection('video_events').doc(), {
+        type: event.type,
+        role: event.role,
+        at: admin.firestore.Timestamp.fromMillis(event.at),
+        created_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  });
+}
+
+// Lets the session pages ask for fresher participant state than the
+// scheduled sync provides. Results arrive through the session document.
+export const sync_video_status = functions.https.onCall(
+  async (data: { session_id: string }, context) => {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { session_id } = data;
+
+    if (!session_id) {
+      throw new functions.https.HttpsError('invalid-argument', 'Session ID is required');
+    }
+
+    const session_doc = await db.collection('sessions').doc(session_id).get();
+    const session_data = session_doc.data();
+
+    if (!session_data) {
+      throw new functions.https.HttpsError('not-found', 'Session not found');
+    }
+
+    if (session_data.helper_id !== context.auth.uid && session_data.customer_id !== context.auth.uid) {
+      throw new functions.https.HttpsError('permission-denied', 'Only session participants can check the session');
+    }
+
+    try {
+      await sync_video_session(session_id);
+
+      return { success: true };
+    } catch (error) {
+      if (error instanceof ZohoTokenRevokedError) {
+        console.error(error.message);
+        throw new functions.https.HttpsError('unavailable', 'Video status is temporarily unavailable');
+      }
+      console.error(`Error syncing video session ${session_id}:`, error);
+      throw new functions.https.HttpsError('internal', 'Failed to check the video session');
+    }
+  }
+);
+
+// Catches joins and drops for sessions nobody is watching.
+export const sync_video_sessions = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const live_query = await db
+      .collection('sessions')
+      .where('status', 'in', ['waiting', 'active'])
+      .get();
+
+    for (const session_doc of live_query.docs) {
+      try {
+        await sync_video_session(session_doc.id);
+      } catch (error) {
+        console.error(`Error syncing video session ${session_doc.id}:`, error);
+      }
+    }
+  });
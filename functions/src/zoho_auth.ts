@@ -0,0 +1,238 @@
+import * as admin from 'firebase-admin';
+import axios, { AxiosRequestConfig } from 'axios';
+import { createHash, randomUUID } from 'crypto';
+import { app_config } from './config';
+
+const db = admin.firestore();
+
+const TOKEN_URL = 'https://accounts.zoho.com/oauth/v2/token';
+
+// Tokens are treated as expired this long before Zoho says they are
+const EXPIRY_MARGIN_SECONDS = 300;
+
+// One instance refreshes at a time; the rest wait for its token. A lease
+// outlives a crashed refresher by at most this long.
+const LEASE_MS = 30 * 1000;
+const LEASE_POLL_MS = 500;
+const MAX_LEASE_POLLS = 40;
+
+const MAX_RATE_LIMIT_RETRIES = 4;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+
+// What Zoho returns when the refresh token itself no longer works
+const REVOKED_TOKEN_ERRORS = ['invalid_code', 'invalid_grant'];
+
+interface ZohoTokenResponse {
+  access_token?: string;
+  token_type?: string;
+  expires_in?: number;
+  error?: string;
+}
+
+// Thrown when Zoho rejects the refresh token, e.g. because it was revoked
+// in the API console. Retrying will not help; a new zoho.refresh_token has
+// to be configured.
+export class ZohoTokenRevokedError extends Error {
+  constructor(readonly zoho_error: string) {
+    super(`Zoho refresh token was rejected (${zoho_error}); configure a new zoho.refresh_token`);
+    this.name = 'ZohoTokenRevokedError';
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Returns null when Retry-After asks for longer than BACKOFF_MAX_MS. Waiting
+// that long would outlast the token lease and the calling function.
+function backoff_ms(attempt: number, retry_after: string | undefined): number | null {
+  const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  const jitter = Math.random() * BACKOFF_BASE_MS;
+  const requested = Number(retry_after) * 1000 || 0;
+
+  if (requested > BACKOFF_MAX_MS) {
+    return null;
+  }
+
+  return Math.min(BACKOFF_MAX_MS, Math.max(exponential + jitter, requested));
+}
+
+// Retries a Zoho call while it is rate limited (429), backing off
+// exponentially or as long as Retry-After asks, up to BACKOFF_MAX_MS
+async function with_backoff<T>(send: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send();
+    } catch (error) {
+      const is_rate_limited = axios.isAxiosError(error) && error.response?.status === 429;
+
+      if (!is_rate_limited || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        throw error;
+      }
+
+      const retry_after = axios.isAxiosError(error) ? error.response?.headers['retry-after'] : undefined;
+      const delay_ms = backoff_ms(attempt, retry_after);
+
+      if (delay_ms === null) {
+        throw error;
+      }
+
+      await sleep(delay_ms);
+    }
+  }
+}
+
+const token_ref = () => db.collection('system').doc('zoho_token');
+
+// Lets instances recognise a refresh token Zoho has already rejected
+// without storing the token itself
+function refresh_token_hash(): string {
+  return createHash('sha256').update(app_config.zoho.refresh_token).digest('hex');
+}
+
+async function release_lease(lease_id: string): Promise<void> {
+  await db.runTransaction(async (transaction) => {
+    const token_doc = await transaction.get(token_ref());
+
+    if (token_doc.data()?.lease_id === lease_id) {
+      transaction.update(token_ref(), {
+        lease_id: admin.firestore.FieldValue.delete(),
+        lease_expires_at: admin.firestore.FieldValue.delete(),
+      });
+    }
+  });
+}
+
+// Called only while holding the lease
+async function refresh_access_token(lease_id: string): Promise<string> {
+  try {
+    let token_data: ZohoTokenResponse;
+
+    try {
+      const response = await with_backoff(() =>
+        axios.post<ZohoTokenResponse>(TOKEN_URL, null, {
+          params: {
+            refresh_token: app_config.zoho.refresh_token,
+            client_id: app_config.zoho.client_id,
+            client_secret: app_config.zoho.client_secret,
+            grant_type: 'refresh_token',
+          },
+        })
+      );
+      token_data = response.data;
+    } catch (error) {
+      // Zoho reports some rejections as 400s and others as 200s with an error
+      if (axios.isAxiosError(error) && (error.response?.data as ZohoTokenResponse | undefined)?.error) {
+        token_data = error.response!.data as ZohoTokenResponse;
+      } else {
+        throw error;
+      }
+    }
+
+    if (token_data.error && REVOKED_TOKEN_ERRORS.includes(token_data.error)) {
+      await token_ref().set({
+        revoked_at: admin.firestore.FieldValue.serverTimestamp(),
+        revoked_token_hash: refresh_token_hash(),
+        last_error: token_data.error,
+      }, { merge: true });
+
+      throw new ZohoTokenRevokedError(token_data.error);
+    }
+
+    if (token_data.error || !token_data.access_token || !token_data.expires_in) {
+      throw new Error(`Zoho token refresh failed: ${token_data.error || 'no access token returned'}`);
+    }
+
+    await token_ref().set({
+      access_token: token_data.access_token,
+      expires_at: Date.now() + (token_data.expires_in - EXPIRY_MARGIN_SECONDS) * 1000,
+      lease_id: admin.firestore.FieldValue.delete(),
+      lease_expires_at: admin.firestore.FieldValue.delete(),
+      revoked_at: admin.firestore.FieldValue.delete(),
+      revoked_token_hash: admin.firestore.FieldValue.delete(),
+      last_error: admin.firestore.FieldValue.delete(),
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+
+    return token_data.access_token;
+  } catch (error) {
+    await release_lease(lease_id);
+    throw error;
+  }
+}
+
+// Returns a usable access token, refreshing it if needed. Pass the token
+// Zoho just rejected to force a refresh, unless another instance has
+// already replaced it.
+export async function get_access_token(rejected_token?: string): Promise<string> {
+  const lease_id = randomUUID();
+
+  for (let poll = 0; poll <= MAX_LEASE_POLLS; poll++) {
+    const claim = await db.runTransaction(async (transaction) => {
+      const token_doc = await transaction.get(token_ref());
+      const token_data = token_doc.data();
+      const now = Date.now();
+
+      if (token_data?.access_token && token_data.expires_at > now && token_data.access_token !== rejected_token) {
+        return { access_token: token_data.access_token as string };
+      }
+
+      // Refreshing with a token Zoho has rejected only burns rate limit
+      if (token_data?.revoked_token_hash === refresh_token_hash()) {
+        return { revoked_error: token_data.last_error as string };
+      }
+
+      if (token_data?.lease_expires_at > now) {
+        return { is_waiting: true };
+      }
+
+      transaction.set(token_ref(), { lease_id, lease_expires_at: now + LEASE_MS }, { merge: true });
+      return { is_leased: true };
+    });
+
+    if (claim.access_token) {
+      return claim.access_token;
+    }
+
+    if (claim.revoked_error) {
+      throw new ZohoTokenRevokedError(claim.revoked_error);
+    }
+
+    if (claim.is_leased) {
+      return refresh_access_token(lease_id);
+    }
+
+    await sleep(LEASE_POLL_MS);
+  }
+
+  throw new Error('Timed out waiting for another instance to refresh the Zoho token');
+}
+
+// Makes an authenticated Zoho API call. A 401 is retried once with a fresh
+// token and rate limits are retried with backoff.
+export async function zoho_request<T>(config: AxiosRequestConfig): Promise<T> {
+  let access_token = await get_access_token();
+
+  const send = () => with_backoff(() =>
+    axios.request<T>({
+      ...config,
+      headers: {
+        ...config.headers,
+        Authorization: `Bearer ${access_token}`,
+        'Content-Type': 'application/json',
+      },
+    })
+  );
+
+  try {
+    return (await send()).data;
+  } catch (error) {
+    if (!axios.isAxiosError(error) || error.response?.status !== 401) {
+      throw error;
+    }
+
+    access_token = await get_access_token(access_token);
+    return (await send()).data;
+  }
+}
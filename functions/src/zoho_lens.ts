@@ -1,14 +1,12 @@
-import * as functions from 'firebase-functions';
-import * as admin from 'firebase-admin';
-import axios from 'axios';
 import { app_config } from './config';
-
-const db = admin.firestore();
-
-interface ZohoTokenResponse {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
+import { VideoParticipantRole, VideoProvider, VideoSessionStatus } from './video_provider';
+import { zoho_request } from './zoho_auth';
+
+// Times are ISO strings
+interface ZohoParticipant {
+  role: string;
+  joined_time?: string;
+  left_time?: string;
 }
 
 interface ZohoSessionResponse {
@@ -16,146 +14,105 @@ interface ZohoSessionResponse {
   session_url: string;
   technician_url: string;
   customer_url: string;
+  status?: string;
+  start_time?: string;
+  end_time?: string;
+  participants?: ZohoParticipant[];
 }
 
-async function get_access_token(): Promise<string> {
-  const token_doc = await db.collection('system').doc('zoho_token').get();
-  const token_data = token_doc.data();
-
-  if (token_data && token_data.expires_at > Date.now()) {
-    return token_data.access_token;
-  }
-
-  const response = await axios.post<ZohoTokenResponse>(
-    'https://accounts.zoho.com/oauth/v2/token',
-    null,
-    {
-      params: {
-        refresh_token: app_config.zoho.refresh_token,
-        client_id: app_config.zoho.client_id,
-        client_secret: app_config.zoho.client_secret,
-        grant_type: 'refresh_token',
-      },
-    }
-  );
-
-  const { access_token, expires_in } = response.data;
-
-  await db.collection('system').doc('zoho_token').set({
-    access_token,
-    expires_at: Date.now() + (expires_in - 300) * 1000,
-    updated_at: admin.firestore.FieldValue.serverTimestamp(),
-  });
-
-  return access_token;
+const ZOHO_API_BASE = 'https://lens.zoho.com/api/v1/organizations';
+
+// Statuses and roles not listed here are logged and map to 'unknown' or are
+// dropped, so video_sync skips the session rather than recording a guess
+const ZOHO_STATUSES: Record<string, VideoSessionStatus> = {
+  scheduled: 'waiting',
+  waiting: 'waiting',
+  in_progress: 'active',
+  active: 'active',
+  completed: 'ended',
+  ended: 'ended',
+};
+
+const ZOHO_ROLES: Record<string, VideoParticipantRole> = {
+  technician: 'technician',
+  host: 'technician',
+  customer: 'customer',
+  guest: 'customer',
+};
+
+// Own keys only, so values like 'constructor' count as unrecognised
+function lookup<T>(map: Record<string, T>, key: string | undefined): T | undefined {
+  return key !== undefined && Object.prototype.hasOwnProperty.call(map, key) ? map[key] : undefined;
 }
 
-export const create_zoho_session = functions.https.onCall(
-  async (data: { request_id: string }, context) => {
-    if (!context.auth) {
-      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
-    }
-
-    const { request_id } = data;
-
-    if (!request_id) {
-      throw new functions.https.HttpsError('invalid-argument', 'Request ID is required');
-    }
-
-    const request_doc = await db.collection('requests').doc(request_id).get();
-
-    if (!request_doc.exists) {
-      throw new functions.https.HttpsError('not-found', 'Request not found');
-    }
-
-    const request_data = request_doc.data()!;
-
-    if (request_data.helper_id !== context.auth.uid) {
-      throw new functions.https.HttpsError('permission-denied', 'Only the assigned helper can create a session');
-    }
-
-    try {
-      const access_token = await get_access_token();
-
-      const response = await axios.post<ZohoSessionResponse>(
-        `https://lens.zoho.com/api/v1/organizations/${app_config.zoho.org_id}/sessions`,
-        {
-          title: `Help Request: ${request_data.category}`,
-          customer_name: request_data.customer_name,
-          description: request_data.description,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${access_token}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      const session_data = response.data;
-
-      await db.collection('requests').doc(request_id).update({
-        zoho_session_id: session_data.session_id,
-        zoho_technician_url: session_data.technician_url,
-        zoho_customer_url: session_data.customer_url,
-        updated_at: admin.firestore.FieldValue.serverTimestamp(),
-      });
-
-      return {
-        session_id: session_data.session_id,
-        session_url: session_data.customer_url,
-        technician_url: session_data.technician_url,
-      };
-    } catch (error) {
-      console.error('Error creating Zoho session:', error);
-      throw new functions.https.HttpsError('internal', 'Failed to create Zoho Lens session');
-    }
-  }
-);
-
-export const end_zoho_session = functions.https.onCall(
-  async (data: { session_id: string }, context) => {
-    if (!context.auth) {
-      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
-    }
-
-    const { session_id } = data;
-
-    if (!session_id) {
-      throw new functions.https.HttpsError('invalid-argument', 'Session ID is required');
-    }
-
-    const session_doc = await db.collection('sessions').doc(session_id).get();
+function to_millis(time: string | undefined): number | null {
+  const millis = time ? Date.parse(time) : NaN;
+  return Number.isNaN(millis) ? null : millis;
+}
 
-    if (!session_doc.exists) {
-      throw new functions.https.HttpsError('not-found', 'Session not found');
-    }
+function sessions_endpoint(): string {
+  return `${ZOHO_API_BASE}/${app_config.zoho.org_id}/sessions`;
+}
 
-    const session_data = session_doc.data()!;
+async function get_session(session_id: string): Promise<ZohoSessionResponse> {
+  return zoho_request<ZohoSessionResponse>({
+    method: 'get',
+    url: `${sessions_endpoint()}/${session_id}`,
+  });
+}
 
-    if (session_data.helper_id !== context.auth.uid && session_data.customer_id !== context.auth.uid) {
-      throw new functions.https.HttpsError('permission-denied', 'Only session participants can end the session');
+export const zoho_lens_provider: VideoProvider = {
+  async create_session(details) {
+    const { session_id, technician_url, customer_url } = await zoho_request<ZohoSessionResponse>({
+      method: 'post',
+      url: sessions_endpoint(),
+      data: details,
+    });
+
+    return { session_id, technician_url, customer_url };
+  },
+
+  async end_session(session_id) {
+    await zoho_request({
+      method: 'post',
+      url: `${sessions_endpoint()}/${session_id}/end`,
+      data: {},
+    });
+  },
+
+  async get_session_state(session_id) {
+    const session = await get_session(session_id);
+    const status = lookup(ZOHO_STATUSES, session.status);
+
+    // Logged so a mapping that does not match what Zoho sends shows up
+    // instead of the sync quietly doing nothing
+    if (!status) {
+      console.warn(`Unrecognised Zoho Lens status "${session.status}" for session ${session_id}`);
     }
 
-    try {
-      if (session_data.zoho_session_id) {
-        const access_token = await get_access_token();
-
-        await axios.post(
-          `https://lens.zoho.com/api/v1/organizations/${app_config.zoho.org_id}/sessions/${session_data.zoho_session_id}/end`,
-          {},
-          {
-            headers: {
-              Authorization: `Bearer ${access_token}`,
-            },
-          }
-        );
+    const participants = (session.participants || []).filter((participant) => {
+      if (!lookup(ZOHO_ROLES, participant.role)) {
+        console.warn(`Unrecognised Zoho Lens participant role "${participant.role}" for session ${session_id}`);
+        return false;
       }
-
-      return { success: true };
-    } catch (error) {
-      console.error('Error ending Zoho session:', error);
-      return { success: true };
-    }
-  }
-);
+      return true;
+    });
+
+    return {
+      status: status || 'unknown',
+      started_at: to_millis(session.start_time),
+      ended_at: to_millis(session.end_time),
+      participants: participants
+        .map((participant) => ({
+          role: ZOHO_ROLES[participant.role],
+          joined_at: to_millis(participant.joined_time),
+          left_at: to_millis(participant.left_time),
+        })),
+    };
+  },
+
+  async get_participant_url(session_id, role) {
+    const session = await get_session(session_id);
+    return role === 'technician' ? session.technician_url : session.customer_url;
+  },
+};
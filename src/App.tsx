@@ -1,17 +1,19 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { Elements } from '@stripe/react-stripe-js';
 import { AuthProvider, useAuth } from './hooks/use_auth';
+import { PresenceProvider } from './hooks/use_presence';
 import { ErrorBoundary } from './components/common/ErrorBoundary';
 import { LoadingSpinner } from './components/common/LoadingSpinner';
 import { get_stripe } from './services/stripe_client';
 
-import { Home, NotFound } from './pages/shared';
+import { Home, NotFound, MockVideoRoom } from './pages/shared';
 import {
   CustomerLogin,
   CustomerSignup,
   RequestForm,
   RequestStatus,
   PaymentPage,
+  PaymentMethods,
   CustomerSession,
 } from './pages/customer';
 import {
@@ -19,6 +21,8 @@ import {
   HelperSignup,
   HelperDashboard,
   HelperSession,
+  HelperPayouts,
+  HelperEarnings,
 } from './pages/helper';
 
 interface ProtectedRouteProps {
@@ -83,6 +87,16 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/customer/payment-methods"
+        element={
+          <ProtectedRoute allowed_role="customer">
+            <Elements stripe={get_stripe()}>
+              <PaymentMethods />
+            </Elements>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/customer/session/:session_id"
         element={
@@ -105,6 +119,22 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/helper/payouts"
+        element={
+          <ProtectedRoute allowed_role="helper">
+            <HelperPayouts />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/helper/earnings"
+        element={
+          <ProtectedRoute allowed_role="helper">
+            <HelperEarnings />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/helper/session/:request_id"
         element={
@@ -114,6 +144,9 @@ function AppRoutes() {
         }
       />
 
+      {/* Placeholder room served by the mock video provider */}
+      <Route path="/video/mock/:video_session_id" element={<MockVideoRoom />} />
+
       {/* 404 */}
       <Route path="*" element={<NotFound />} />
     </Routes>
@@ -125,7 +158,10 @@ export function App() {
     <ErrorBoundary>
       <BrowserRouter>
         <AuthProvider>
-          <AppRoutes />
+          {/* Mounted above the routes so helpers stay online on every page */}
+          <PresenceProvider>
+            <AppRoutes />
+          </PresenceProvider>
         </AuthProvider>
       </BrowserRouter>
     </ErrorBoundary>
@@ -26,7 +26,23 @@ export function Header() {
 
         {user ? (
           <div className="flex items-center space-x-4">
+            {user.role === 'helper' && (
+              <Link
+                to="/helper/earnings"
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                Earnings
+              </Link>
+            )}
             {user.role === 'helper' && <NotificationBell />}
+            {user.role === 'customer' && (
+              <Link
+                to="/customer/payment-methods"
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                Payment Methods
+              </Link>
+            )}
             <span className="text-sm text-gray-600">
               {user.display_name}
               <span className="ml-2 px-2 py-0.5 text-xs bg-gray-100 rounded capitalize">
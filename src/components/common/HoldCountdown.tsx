@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { format_countdown } from '../../utils/date_utils';
+
+interface HoldCountdownProps {
+  expires_at: Timestamp;
+  className?: string;
+  expired_label?: string;
+}
+
+export function HoldCountdown({
+  expires_at,
+  className = '',
+  expired_label = 'Hold expired',
+}: HoldCountdownProps) {
+  const [remaining_ms, set_remaining_ms] = useState(
+    expires_at.toMillis() - Date.now()
+  );
+
+  useEffect(() => {
+    set_remaining_ms(expires_at.toMillis() - Date.now());
+
+    const interval = setInterval(() => {
+      set_remaining_ms(expires_at.toMillis() - Date.now());
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [expires_at]);
+
+  if (remaining_ms <= 0) {
+    return <span className={className}>{expired_label}</span>;
+  }
+
+  return <span className={`tabular-nums ${className}`}>{format_countdown(remaining_ms)}</span>;
+}
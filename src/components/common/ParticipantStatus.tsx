@@ -0,0 +1,50 @@
+import { SessionVideoState, VideoParticipantRole, VideoParticipantState } from '../../types';
+import { format_time } from '../../utils/date_utils';
+
+interface ParticipantStatusProps {
+  video?: SessionVideoState;
+}
+
+const ROLE_LABELS: Record<VideoParticipantRole, string> = {
+  technician: 'Helper',
+  customer: 'Customer',
+};
+
+function describe(participant: VideoParticipantState | undefined): { label: string; class_name: string } {
+  if (participant?.connected) {
+    return {
+      label: `in call since ${format_time(participant.joined_at ?? undefined)}`,
+      class_name: 'bg-green-500/20 text-green-300',
+    };
+  }
+
+  if (participant?.left_at) {
+    return {
+      label: `dropped at ${format_time(participant.left_at)}`,
+      class_name: 'bg-yellow-500/20 text-yellow-300',
+    };
+  }
+
+  return { label: 'not joined yet', class_name: 'bg-gray-700 text-gray-300' };
+}
+
+// Who the video provider reports as being in the call
+export function ParticipantStatus({ video }: ParticipantStatusProps) {
+  if (!video) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      {(['technician', 'customer'] as VideoParticipantRole[]).map((role) => {
+        const { label, class_name } = describe(video.participants[role]);
+
+        return (
+          <span key={role} className={`px-2 py-1 text-xs rounded-full ${class_name}`}>
+            {ROLE_LABELS[role]} {label}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+interface StarRatingProps {
+  value: number;
+  // Makes the stars clickable
+  on_change?: (value: number) => void;
+  size?: 'sm' | 'lg';
+  className?: string;
+}
+
+export function StarRating({ value, on_change, size = 'sm', className = '' }: StarRatingProps) {
+  const size_class = size === 'lg' ? 'text-3xl' : 'text-base';
+
+  return (
+    <span className={`inline-flex ${size_class} ${className}`}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const filled = star <= Math.round(value);
+        const color = filled ? 'text-yellow-400' : 'text-gray-300';
+
+        if (!on_change) {
+          return (
+            <span key={star} className={color}>
+              ★
+            </span>
+          );
+        }
+
+        return (
+          <button
+            key={star}
+            type="button"
+            onClick={() => on_change(star)}
+            className={`${color} hover:text-yellow-500`}
+            aria-label={`${star} star${star === 1 ? '' : 's'}`}
+          >
+            ★
+          </button>
+        );
+      })}
+    </span>
+  );
+}
@@ -0,0 +1,26 @@
+interface VideoFrameProps {
+  url: string;
+  title: string;
+}
+
+// Shows the provider's session page in place. Some providers refuse to be
+// framed, so the link is always offered as well.
+export function VideoFrame({ url, title }: VideoFrameProps) {
+  return (
+    <div className="w-full">
+      <iframe
+        id="zoho-lens-container"
+        src={url}
+        title={title}
+        allow="camera; microphone; fullscreen"
+        className="w-full h-[calc(100vh-160px)] bg-black rounded-lg border-0"
+      />
+      <p className="text-center text-gray-400 text-sm mt-3">
+        Video not loading?{' '}
+        <a href={url} target="_blank" rel="noopener noreferrer" className="text-primary-400 underline">
+          Open it in a new tab
+        </a>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react';
+import { useWebRtcCall } from '../../hooks/use_webrtc_call';
+import { VideoParticipantRole } from '../../types';
+
+interface WebRtcCallProps {
+  session_id: string;
+  role: VideoParticipantRole;
+  sender_id: string;
+  peer_name?: string;
+}
+
+const CONNECTION_LABELS: Partial<Record<RTCPeerConnectionState, string>> = {
+  new: 'Waiting for the other person to join...',
+  connecting: 'Connecting...',
+  disconnected: 'Connection lost. Trying to reconnect...',
+  failed: 'Could not connect. Ask the other person to reload the page.',
+};
+
+export function WebRtcCall({ session_id, role, sender_id, peer_name }: WebRtcCallProps) {
+  const {
+    local_stream,
+    remote_stream,
+    connection_state,
+    can_switch_camera,
+    switch_camera,
+    error,
+  } = useWebRtcCall(session_id, role, sender_id);
+
+  const local_video_ref = useRef<HTMLVideoElement>(null);
+  const remote_video_ref = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (local_video_ref.current) {
+      local_video_ref.current.srcObject = local_stream;
+    }
+  }, [local_stream]);
+
+  useEffect(() => {
+    if (remote_video_ref.current) {
+      remote_video_ref.current.srcObject = remote_stream;
+    }
+  }, [remote_stream]);
+
+  const status_label = CONNECTION_LABELS[connection_state];
+
+  return (
+    <div className="relative w-full h-[calc(100vh-120px)] bg-black rounded-lg overflow-hidden">
+      <video
+        ref={remote_video_ref}
+        autoPlay
+        playsInline
+        className="w-full h-full object-contain"
+        aria-label={peer_name ? `Video from ${peer_name}` : 'Remote video'}
+      />
+
+      {(error || status_label) && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <p className={`px-4 py-2 rounded-lg ${error ? 'bg-red-900/80 text-red-200' : 'bg-gray-900/80 text-gray-300'}`}>
+            {error || status_label}
+          </p>
+        </div>
+      )}
+
+      <video
+        ref={local_video_ref}
+        autoPlay
+        playsInline
+        muted
+        className="absolute bottom-4 right-4 w-32 md:w-48 rounded-lg border-2 border-gray-700 bg-gray-800"
+      />
+
+      {can_switch_camera && (
+        <button
+          onClick={switch_camera}
+          className="absolute bottom-4 left-4 px-4 py-2 bg-gray-800/90 text-white rounded-lg hover:bg-gray-700 transition-colors"
+        >
+          Switch Camera
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { SessionOutcome } from '../../types';
+
+interface CompletionConfirmationProps {
+  outcome?: SessionOutcome;
+  confirmation_due_at?: Timestamp;
+  on_respond: (agree: boolean, reason?: string) => void;
+  is_loading?: boolean;
+  error?: string | null;
+}
+
+const OUTCOME_LABELS: Record<SessionOutcome, string> = {
+  resolved: 'Your helper marked the issue as resolved.',
+  unresolved: 'Your helper was not able to resolve the issue.',
+  escalated: 'Your helper recommended an in-person visit.',
+};
+
+export function CompletionConfirmation({
+  outcome,
+  confirmation_due_at,
+  on_respond,
+  is_loading = false,
+  error,
+}: CompletionConfirmationProps) {
+  const [is_disputing, set_is_disputing] = useState(false);
+  const [reason, set_reason] = useState('');
+
+  return (
+    <div className="card mb-6">
+      <h3 className="font-semibold text-gray-900 mb-1">How did it go?</h3>
+      <p className="text-sm text-gray-600 mb-3">
+        {outcome ? OUTCOME_LABELS[outcome] : 'Your session has ended.'} Your card is
+        only charged once you confirm.
+      </p>
+      {confirmation_due_at && (
+        <p className="text-xs text-gray-500 mb-3">
+          If we don't hear from you, the session is confirmed automatically on{' '}
+          {confirmation_due_at.toDate().toLocaleString()}.
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 mb-3">{error}</p>
+      )}
+
+      {is_disputing ? (
+        <div>
+          <label className="label">What went wrong?</label>
+          <textarea
+            value={reason}
+            onChange={(e) => set_reason(e.target.value)}
+            className="input-field mb-3"
+            rows={3}
+            placeholder="Tell our support team what happened"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => on_respond(false, reason.trim())}
+              disabled={is_loading || !reason.trim()}
+              className="btn-primary flex-1"
+            >
+              {is_loading ? 'Sending...' : 'Open Support Case'}
+            </button>
+            <button
+              onClick={() => set_is_disputing(false)}
+              disabled={is_loading}
+              className="btn-secondary flex-1"
+            >
+              Back
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button
+            onClick={() => on_respond(true)}
+            disabled={is_loading}
+            className="btn-primary flex-1"
+          >
+            {is_loading ? 'Confirming...' : 'Confirm'}
+          </button>
+          <button
+            onClick={() => set_is_disputing(true)}
+            disabled={is_loading}
+            className="btn-secondary flex-1"
+          >
+            Report a Problem
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
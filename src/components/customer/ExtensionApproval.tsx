@@ -0,0 +1,47 @@
+import { ExtensionRequest } from '../../types';
+
+interface ExtensionApprovalProps {
+  extension_request: ExtensionRequest;
+  on_respond: (approve: boolean) => void;
+  is_loading?: boolean;
+  error?: string | null;
+}
+
+export function ExtensionApproval({
+  extension_request,
+  on_respond,
+  is_loading = false,
+  error,
+}: ExtensionApprovalProps) {
+  return (
+    <div className="bg-white rounded-lg p-4 shadow-lg max-w-sm">
+      <p className="font-medium text-gray-900 mb-1">Your helper needs more time</p>
+      <p className="text-sm text-gray-600 mb-3">
+        Add {extension_request.minutes} minutes for up to $
+        {(extension_request.amount / 100).toFixed(2)}. You only pay for the extra
+        minutes you use.
+      </p>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-3">{error}</p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => on_respond(true)}
+          disabled={is_loading}
+          className="btn-primary flex-1"
+        >
+          {is_loading ? 'Approving...' : 'Approve'}
+        </button>
+        <button
+          onClick={() => on_respond(false)}
+          disabled={is_loading}
+          className="btn-secondary flex-1"
+        >
+          Decline
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { PriceLineItem } from '../../types';
+
+interface PriceBreakdownProps {
+  line_items: PriceLineItem[];
+  total: number;
+}
+
+function format_cents(amount: number): string {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}$${(Math.abs(amount) / 100).toFixed(2)}`;
+}
+
+export function PriceBreakdown({ line_items, total }: PriceBreakdownProps) {
+  return (
+    <div className="space-y-1">
+      {line_items.map((item) => (
+        <div key={item.code} className="flex justify-between text-sm">
+          <span className="text-gray-600">{item.label}</span>
+          <span className={item.amount < 0 ? 'text-green-600' : 'text-gray-900'}>
+            {format_cents(item.amount)}
+          </span>
+        </div>
+      ))}
+      <div className="flex justify-between pt-2 mt-2 border-t">
+        <span className="font-medium text-gray-700">Total</span>
+        <span className="text-xl font-bold text-primary-600">{format_cents(total)}</span>
+      </div>
+    </div>
+  );
+}
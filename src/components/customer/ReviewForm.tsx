@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { StarRating } from '../common/StarRating';
+
+interface ReviewFormProps {
+  helper_name?: string;
+  on_submit: (rating: number, comment: string) => void;
+  is_loading?: boolean;
+  error?: string | null;
+}
+
+export function ReviewForm({ helper_name, on_submit, is_loading = false, error }: ReviewFormProps) {
+  const [rating, set_rating] = useState(0);
+  const [comment, set_comment] = useState('');
+
+  const handle_submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating === 0) return;
+    on_submit(rating, comment.trim());
+  };
+
+  return (
+    <form onSubmit={handle_submit} className="card mb-6">
+      <h3 className="font-semibold text-gray-900 mb-1">
+        Rate {helper_name || 'your helper'}
+      </h3>
+      <p className="text-sm text-gray-600 mb-3">
+        Your feedback helps us match customers with the best helpers.
+      </p>
+
+      <StarRating value={rating} on_change={set_rating} size="lg" className="mb-3" />
+
+      <textarea
+        value={comment}
+        onChange={(e) => set_comment(e.target.value)}
+        className="input-field mb-3"
+        rows={3}
+        maxLength={1000}
+        placeholder="Anything you'd like to share? (optional)"
+      />
+
+      {error && (
+        <p className="text-sm text-red-600 mb-3">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={rating === 0 || is_loading}
+        className="btn-primary w-full"
+      >
+        {is_loading ? 'Submitting...' : 'Submit Review'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,54 @@
+import { SavedPaymentMethod } from '../../types';
+
+interface SavedCardListProps {
+  payment_methods: SavedPaymentMethod[];
+  selected_id?: string | null;
+  on_select?: (payment_method_id: string) => void;
+  on_remove?: (payment_method_id: string) => void;
+}
+
+export function SavedCardList({
+  payment_methods,
+  selected_id,
+  on_select,
+  on_remove,
+}: SavedCardListProps) {
+  return (
+    <div className="space-y-2">
+      {payment_methods.map((method) => (
+        <label
+          key={method.id}
+          className={`flex items-center justify-between p-3 border rounded-lg ${
+            on_select ? 'cursor-pointer' : ''
+          } ${selected_id === method.id ? 'border-primary-500 bg-primary-50' : 'border-gray-200'}`}
+        >
+          <div className="flex items-center">
+            {on_select && (
+              <input
+                type="radio"
+                name="saved_card"
+                checked={selected_id === method.id}
+                onChange={() => on_select(method.id)}
+                className="mr-3"
+              />
+            )}
+            <span className="capitalize font-medium">{method.brand}</span>
+            <span className="ml-2 text-gray-600">•••• {method.last4}</span>
+            <span className="ml-3 text-sm text-gray-400">
+              {String(method.exp_month).padStart(2, '0')}/{String(method.exp_year).slice(-2)}
+            </span>
+          </div>
+          {on_remove && (
+            <button
+              type="button"
+              onClick={() => on_remove(method.id)}
+              className="text-sm text-red-600 hover:underline"
+            >
+              Remove
+            </button>
+          )}
+        </label>
+      ))}
+    </div>
+  );
+}
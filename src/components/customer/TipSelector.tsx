@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { app_config } from '../../config/app_config';
+
+interface TipSelectorProps {
+  helper_name?: string;
+  on_submit: (amount: number) => void;
+  is_loading?: boolean;
+  error?: string | null;
+}
+
+export function TipSelector({ helper_name, on_submit, is_loading = false, error }: TipSelectorProps) {
+  const { preset_cents, min_cents, max_cents } = app_config.tips;
+  const [selected, set_selected] = useState<number | null>(preset_cents[1]);
+  const [custom, set_custom] = useState('');
+
+  // null selection means the custom field is in use
+  const amount = selected ?? Math.round(parseFloat(custom) * 100);
+  const is_valid = Number.isFinite(amount) && amount >= min_cents && amount <= max_cents;
+
+  return (
+    <div className="card mb-6">
+      <h3 className="font-semibold text-gray-900 mb-1">
+        Leave a tip for {helper_name || 'your helper'}
+      </h3>
+      <p className="text-sm text-gray-600 mb-3">
+        100% of your tip goes to your helper. It's charged to the card you paid with.
+      </p>
+
+      <div className="flex gap-2 mb-3">
+        {preset_cents.map((preset) => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => set_selected(preset)}
+            className={`flex-1 py-2 rounded-lg border font-medium ${
+              selected === preset
+                ? 'border-primary-500 bg-primary-50 text-primary-700'
+                : 'border-gray-200 text-gray-700'
+            }`}
+          >
+            ${(preset / 100).toFixed(0)}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => set_selected(null)}
+          className={`flex-1 py-2 rounded-lg border font-medium ${
+            selected === null
+              ? 'border-primary-500 bg-primary-50 text-primary-700'
+              : 'border-gray-200 text-gray-700'
+          }`}
+        >
+          Other
+        </button>
+      </div>
+
+      {selected === null && (
+        <input
+          type="number"
+          min={min_cents / 100}
+          max={max_cents / 100}
+          step="0.01"
+          value={custom}
+          onChange={(e) => set_custom(e.target.value)}
+          className="input-field mb-3"
+          placeholder="Tip amount in dollars"
+        />
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 mb-3">{error}</p>
+      )}
+
+      <button
+        type="button"
+        onClick={() => on_submit(amount)}
+        disabled={!is_valid || is_loading}
+        className="btn-primary w-full"
+      >
+        {is_loading ? 'Sending...' : is_valid ? `Tip $${(amount / 100).toFixed(2)}` : 'Tip'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { app_config, UrgencyValue } from '../../config/app_config';
+
+interface UrgencySelectorProps {
+  value: UrgencyValue;
+  on_change: (urgency: UrgencyValue) => void;
+}
+
+export function UrgencySelector({ value, on_change }: UrgencySelectorProps) {
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      {app_config.urgencies.map((urgency) => (
+        <button
+          key={urgency.value}
+          type="button"
+          onClick={() => on_change(urgency.value)}
+          className={`p-3 rounded-lg border-2 text-left transition-all ${
+            value === urgency.value
+              ? 'border-primary-500 bg-primary-50'
+              : 'border-gray-200 hover:border-gray-300 bg-white'
+          }`}
+        >
+          <span className="font-medium text-gray-900 block">{urgency.label}</span>
+          <span className="text-xs text-gray-500">{urgency.description}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
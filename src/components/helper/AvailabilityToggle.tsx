@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { doc, updateDoc, serverTimestamp, deleteField } from 'firebase/firestore';
 import { db } from '../../services/firebase_client';
 import { useAuth } from '../../hooks/use_auth';
 
@@ -16,6 +16,10 @@ export function AvailabilityToggle() {
     try {
       await updateDoc(doc(db, 'users', user.uid), {
         is_available: !is_available,
+        ...(!is_available && {
+          last_seen_at: serverTimestamp(),
+          presence_expired_at: deleteField(),
+        }),
         updated_at: serverTimestamp(),
       });
     } catch (error) {
@@ -1,6 +1,7 @@
 import { Request } from '../../types';
 import { format_distance_to_now } from '../../utils/date_utils';
 import { app_config } from '../../config/app_config';
+import { HoldCountdown } from '../common/HoldCountdown';
 
 interface ClaimedJobsProps {
   requests: Request[];
@@ -32,6 +33,11 @@ export function ClaimedJobs({ requests, on_start_session }: ClaimedJobsProps) {
                   <span className="inline-block px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded mb-2">
                     Claimed {format_distance_to_now(request.claimed_at)}
                   </span>
+                  {request.hold_expires_at && request.payment_status !== 'authorized' && (
+                    <span className="inline-block px-2 py-1 text-xs font-medium bg-orange-100 text-orange-800 rounded mb-2 ml-2">
+                      Awaiting payment · releases in <HoldCountdown expires_at={request.hold_expires_at} />
+                    </span>
+                  )}
                   <h3 className="font-medium text-gray-900 flex items-center">
                     <span className="mr-2">{category?.icon}</span>
                     {category?.label}
@@ -0,0 +1,50 @@
+import { Review } from '../../types';
+import { StarRating } from '../common/StarRating';
+import { format_distance_to_now } from '../../utils/date_utils';
+
+interface RatingSummaryProps {
+  rating_average?: number | null;
+  rating_count?: number;
+  reviews: Review[];
+}
+
+export function RatingSummary({ rating_average, rating_count = 0, reviews }: RatingSummaryProps) {
+  return (
+    <div className="card mb-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Your Rating</h2>
+        {rating_count > 0 && rating_average != null ? (
+          <div className="flex items-center">
+            <StarRating value={rating_average} />
+            <span className="ml-2 font-medium text-gray-900">{rating_average.toFixed(1)}</span>
+            <span className="ml-1 text-sm text-gray-500">
+              ({rating_count} review{rating_count === 1 ? '' : 's'})
+            </span>
+          </div>
+        ) : (
+          <span className="text-sm text-gray-500">No reviews yet</span>
+        )}
+      </div>
+
+      {reviews.length > 0 && (
+        <ul className="mt-4 divide-y">
+          {reviews.map((review) => (
+            <li key={review.id} className="py-3">
+              <div className="flex items-center justify-between">
+                <StarRating value={review.rating} />
+                <span className="text-xs text-gray-500">
+                  {format_distance_to_now(review.created_at)}
+                </span>
+              </div>
+              {review.comment && (
+                <p className="text-sm mt-1 text-gray-700">
+                  {review.comment}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -7,9 +7,12 @@ interface RequestCardProps {
   request: Request;
   on_claim: (request_id: string) => Promise<void>;
   is_claiming: boolean;
+  is_offered?: boolean;
+  // Set while the helper cannot take jobs, e.g. before payouts are set up
+  disabled?: boolean;
 }
 
-export function RequestCard({ request, on_claim, is_claiming }: RequestCardProps) {
+export function RequestCard({ request, on_claim, is_claiming, is_offered = false, disabled = false }: RequestCardProps) {
   const [selected_image, set_selected_image] = useState<string | null>(null);
 
   const category = app_config.categories.find((c) => c.value === request.category);
@@ -28,6 +31,11 @@ export function RequestCard({ request, on_claim, is_claiming }: RequestCardProps
           <span className="text-2xl">{category_icon}</span>
           <div>
             <span className="font-medium text-gray-900">{category_label}</span>
+            {is_offered && (
+              <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-green-100 text-green-800 rounded">
+                Offered to you
+              </span>
+            )}
             <p className="text-sm text-gray-500">
               {format_distance_to_now(request.created_at)}
             </p>
@@ -73,7 +81,7 @@ export function RequestCard({ request, on_claim, is_claiming }: RequestCardProps
       {/* Claim Button */}
       <button
         onClick={handle_claim}
-        disabled={is_claiming}
+        disabled={is_claiming || disabled}
         className="btn-primary w-full"
       >
         {is_claiming ? 'Claiming...' : 'Claim This Job'}
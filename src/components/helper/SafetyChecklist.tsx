@@ -1,10 +1,12 @@
 import { useState } from 'react';
 
 interface SafetyChecklistProps {
-  on_complete: () => void;
+  // Receives the acknowledged item IDs, which start_session checks
+  on_complete: (items: string[]) => void;
   on_cancel: () => void;
 }
 
+// IDs must match SAFETY_CHECKLIST_ITEMS in functions/src/sessions.ts
 const SAFETY_ITEMS = [
   { id: 'power', label: 'Is the power turned OFF at the breaker?' },
   { id: 'water', label: 'Is the water supply shut off (if applicable)?' },
@@ -62,7 +64,7 @@ export function SafetyChecklist({ on_complete, on_cancel }: SafetyChecklistProps
             Cancel
           </button>
           <button
-            onClick={on_complete}
+            onClick={() => on_complete(Array.from(checked))}
             disabled={!all_checked}
             className={`flex-1 py-2 rounded-lg font-medium ${
               all_checked
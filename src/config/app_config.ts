@@ -4,21 +4,51 @@
 export const app_config = {
   app_name: 'HomePro Assist',
 
-  // Session settings
+  // Session settings (max duration must match the functions sessions.included_minutes)
   session: {
     default_price_cents: 4999,  // $49.99
     max_duration_minutes: 60,
   },
 
-  // Request categories with base prices in cents
+  // Helper presence (timeout must match the functions presence config)
+  presence: {
+    heartbeat_interval_seconds: 30,
+    timeout_seconds: 120,
+  },
+
+  // Request categories. Prices come from the get_quote function.
   categories: [
-    { value: 'plumbing', label: 'Plumbing', icon: '🚿', base_price: 4999 },
-    { value: 'electrical', label: 'Electrical', icon: '⚡', base_price: 4999 },
-    { value: 'hvac', label: 'HVAC', icon: '❄️', base_price: 5999 },
-    { value: 'appliance', label: 'Appliance', icon: '🔧', base_price: 3999 },
-    { value: 'other', label: 'Other', icon: '🏠', base_price: 3999 },
+    { value: 'plumbing', label: 'Plumbing', icon: '🚿' },
+    { value: 'electrical', label: 'Electrical', icon: '⚡' },
+    { value: 'hvac', label: 'HVAC', icon: '❄️' },
+    { value: 'appliance', label: 'Appliance', icon: '🔧' },
+    { value: 'other', label: 'Other', icon: '🏠' },
   ] as const,
 
+  // How quickly the customer needs help (surcharges are applied server-side)
+  urgencies: [
+    { value: 'standard', label: 'Standard', description: 'Next available helper' },
+    { value: 'priority', label: 'Priority', description: 'Jump the queue' },
+    { value: 'emergency', label: 'Emergency', description: 'Urgent, help right now' },
+  ] as const,
+
+  // How often the session pages ask the backend to check who is in the call
+  video: {
+    status_poll_seconds: 15,
+  },
+
+  // Built-in video, used when the backend falls back from its video provider
+  webrtc: {
+    ice_servers: [{ urls: 'stun:stun.l.google.com:19302' }],
+  },
+
+  // Tip presets (limits must match MIN_TIP_CENTS / MAX_TIP_CENTS in functions)
+  tips: {
+    preset_cents: [500, 1000, 2000],
+    min_cents: 100,
+    max_cents: 20000,
+  },
+
   // Photo upload limits
   photos: {
     max_count: 5,
@@ -36,3 +66,4 @@ export const app_config = {
 };
 
 export type CategoryValue = typeof app_config.categories[number]['value'];
+export type UrgencyValue = typeof app_config.urgencies[number]['value'];
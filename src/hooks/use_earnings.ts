@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  doc,
+  limit,
+  getDocs,
+  startAfter,
+  Query,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+} from 'firebase/firestore';
+import { db } from '../services/firebase_client';
+import { useAuth } from './use_auth';
+import { EarningsPeriod, EarningsPeriodType, EarningsTotals, Payment } from '../types';
+
+const HISTORY_PAGE_SIZE = 100;
+
+const EMPTY_TOTALS: EarningsTotals = {
+  pending_amount: 0,
+  earned_amount: 0,
+  reversed_amount: 0,
+  tips_amount: 0,
+  jobs_count: 0,
+};
+
+function helper_payments_query(helper_id: string) {
+  return query(
+    collection(db, 'payments'),
+    where('helper_id', '==', helper_id),
+    orderBy('created_at', 'desc')
+  );
+}
+
+export function useEarnings(period_type: EarningsPeriodType) {
+  const { user } = useAuth();
+  const [totals, set_totals] = useState<EarningsTotals>(EMPTY_TOTALS);
+  const [periods, set_periods] = useState<EarningsPeriod[]>([]);
+  const [payments, set_payments] = useState<Payment[]>([]);
+  const [page_count, set_page_count] = useState(1);
+  const [has_more, set_has_more] = useState(false);
+  const [is_loading, set_is_loading] = useState(true);
+  const [is_loading_more, set_is_loading_more] = useState(false);
+  const [error, set_error] = useState<string | null>(null);
+
+  // Totals are kept up to date server-side
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'helper_earnings', user.uid),
+      (snapshot) => {
+        set_totals({ ...EMPTY_TOTALS, ...(snapshot.data() as Partial<EarningsTotals> | undefined) });
+      },
+      (err) => {
+        console.error('Error loading earnings:', err);
+        set_error('Failed to load earnings');
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const q = query(
+      collection(db, 'helper_earnings', user.uid, 'periods'),
+      where('period_type', '==', period_type),
+      orderBy('period_start', 'desc'),
+      limit(12)
+    );
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        set_periods(snapshot.docs.map((d) => ({ id: d.id, ...d.data() })) as EarningsPeriod[]);
+      },
+      (err) => {
+        console.error('Error loading earnings periods:', err);
+        set_error('Failed to load earnings');
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user, period_type]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Loading more widens the live window, so new payments never push older
+    // ones out of view
+    const page_limit = page_count * HISTORY_PAGE_SIZE;
+    const q = query(helper_payments_query(user.uid), limit(page_limit));
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        set_payments(snapshot.docs.map((d) => ({ id: d.id, ...d.data() })) as Payment[]);
+        set_has_more(snapshot.size === page_limit);
+        set_is_loading(false);
+        set_is_loading_more(false);
+      },
+      (err) => {
+        console.error('Error loading payments:', err);
+        set_error('Failed to load earnings');
+        set_is_loading(false);
+        set_is_loading_more(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [user, page_count]);
+
+  const load_more = useCallback(() => {
+    set_is_loading_more(true);
+    set_page_count((count) => count + 1);
+  }, []);
+
+  // Pages through the whole history, for exports
+  const fetch_all_payments = useCallback(async (): Promise<Payment[]> => {
+    if (!user) return [];
+
+    const all_payments: Payment[] = [];
+    let cursor: QueryDocumentSnapshot | null = null;
+
+    for (;;) {
+      const page_query: Query = cursor
+        ? query(helper_payments_query(user.uid), startAfter(cursor), limit(HISTORY_PAGE_SIZE))
+        : query(helper_payments_query(user.uid), limit(HISTORY_PAGE_SIZE));
+      const snapshot: QuerySnapshot = await getDocs(page_query);
+
+      all_payments.push(...(snapshot.docs.map((d) => ({ id: d.id, ...d.data() })) as Payment[]));
+
+      if (snapshot.size < HISTORY_PAGE_SIZE) {
+        return all_payments;
+      }
+
+      cursor = snapshot.docs[snapshot.docs.length - 1];
+    }
+  }, [user]);
+
+  return {
+    totals,
+    periods,
+    payments,
+    has_more,
+    is_loading,
+    is_loading_more,
+    error,
+    load_more,
+    fetch_all_payments,
+  };
+}
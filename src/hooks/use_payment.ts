@@ -3,18 +3,42 @@ import { httpsCallable } from 'firebase/functions';
 import { functions } from '../services/firebase_client';
 import { get_stripe } from '../services/stripe_client';
 import { StripeCardElement } from '@stripe/stripe-js';
+import { CheckoutSummary } from '../types';
 
 export function usePayment() {
   const [is_loading, set_is_loading] = useState(false);
   const [error, set_error] = useState<string | null>(null);
 
-  const create_payment = async (request_id: string) => {
+  // Returns what the customer would pay, with an optional promo code applied
+  const validate_promo_code = async (request_id: string, code?: string) => {
     set_is_loading(true);
     set_error(null);
 
     try {
-      const fn = httpsCallable(functions, 'createPaymentIntent');
-      const result = await fn({ request_id });
+      const fn = httpsCallable(functions, 'validate_promo_code');
+      const result = await fn({ request_id, code });
+      return result.data as CheckoutSummary;
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to check promo code');
+      throw err;
+    } finally {
+      set_is_loading(false);
+    }
+  };
+
+  const create_payment_intent = async (
+    request_id: string,
+    payment_method_id: string,
+    promo_code?: string,
+    save_payment_method = false
+  ) => {
+    set_is_loading(true);
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'create_payment_intent');
+      const result = await fn({ request_id, payment_method_id, promo_code, save_payment_method });
       return (result.data as { client_secret: string }).client_secret;
     } catch (err: unknown) {
       const error_obj = err as { message?: string };
@@ -51,19 +75,5 @@ export function usePayment() {
     }
   };
 
-  const cancel_request = async (request_id: string) => {
-    set_is_loading(true);
-    try {
-      const fn = httpsCallable(functions, 'cancelRequestPayment');
-      await fn({ request_id });
-    } catch (err: unknown) {
-      const error_obj = err as { message?: string };
-      set_error(error_obj.message || 'Failed to cancel');
-      throw err;
-    } finally {
-      set_is_loading(false);
-    }
-  };
-
-  return { create_payment, confirm_payment, cancel_request, is_loading, error };
+  return { validate_promo_code, create_payment_intent, confirm_payment, is_loading, error };
 }
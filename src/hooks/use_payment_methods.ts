@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../services/firebase_client';
+import { SavedPaymentMethod } from '../types';
+
+export function usePaymentMethods() {
+  const [payment_methods, set_payment_methods] = useState<SavedPaymentMethod[]>([]);
+  const [is_loading, set_is_loading] = useState(true);
+  const [error, set_error] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    set_is_loading(true);
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'list_payment_methods');
+      const result = await fn({});
+      set_payment_methods((result.data as { payment_methods: SavedPaymentMethod[] }).payment_methods);
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to load saved cards');
+    } finally {
+      set_is_loading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const create_setup_intent = async () => {
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'create_setup_intent');
+      const result = await fn({});
+      return (result.data as { client_secret: string }).client_secret;
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to start saving card');
+      throw err;
+    }
+  };
+
+  const detach_payment_method = async (payment_method_id: string) => {
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'detach_payment_method');
+      await fn({ payment_method_id });
+      set_payment_methods((current) => current.filter((method) => method.id !== payment_method_id));
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to remove card');
+      throw err;
+    }
+  };
+
+  return { payment_methods, refresh, create_setup_intent, detach_payment_method, is_loading, error };
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../services/firebase_client';
+import { ConnectStatus } from '../types';
+
+export function usePayouts() {
+  const [status, set_status] = useState<ConnectStatus | null>(null);
+  const [is_loading, set_is_loading] = useState(true);
+  const [error, set_error] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    set_is_loading(true);
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'get_connect_status');
+      const result = await fn({});
+      set_status(result.data as ConnectStatus);
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to load payout status');
+    } finally {
+      set_is_loading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Both links leave the app for Stripe-hosted pages
+  const open_stripe_link = async (callable_name: string, fallback_error: string) => {
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, callable_name);
+      const result = await fn({});
+      window.location.href = (result.data as { url: string }).url;
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || fallback_error);
+      throw err;
+    }
+  };
+
+  const start_onboarding = () =>
+    open_stripe_link('create_connect_onboarding_link', 'Failed to start payout setup');
+
+  const open_dashboard = () =>
+    open_stripe_link('create_connect_dashboard_link', 'Failed to open payout dashboard');
+
+  return { status, refresh, start_onboarding, open_dashboard, is_loading, error };
+}
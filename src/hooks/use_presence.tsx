@@ -0,0 +1,79 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '../services/firebase_client';
+import { app_config } from '../config/app_config';
+import { useAuth } from './use_auth';
+
+interface PresenceContextType {
+  is_connected: boolean;
+  last_heartbeat_at: number | null;
+  presence_expired: boolean;
+}
+
+const PresenceContext = createContext<PresenceContextType | null>(null);
+
+// Sends a heartbeat while an available helper has any page of the app open
+// so the server can mark them offline once the tab goes away.
+export function PresenceProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [last_heartbeat_at, set_last_heartbeat_at] = useState<number | null>(null);
+  const [is_connected, set_is_connected] = useState(true);
+
+  const is_helper = user?.role === 'helper';
+  const is_available = user?.is_available ?? false;
+
+  useEffect(() => {
+    if (!user || !is_helper || !is_available) return;
+
+    const send_heartbeat = async () => {
+      try {
+        await updateDoc(doc(db, 'users', user.uid), {
+          last_seen_at: serverTimestamp(),
+        });
+        set_last_heartbeat_at(Date.now());
+        set_is_connected(true);
+      } catch (error) {
+        console.error('Error sending presence heartbeat:', error);
+        set_is_connected(false);
+      }
+    };
+
+    send_heartbeat();
+    const interval = setInterval(
+      send_heartbeat,
+      app_config.presence.heartbeat_interval_seconds * 1000
+    );
+
+    return () => clearInterval(interval);
+  }, [user?.uid, is_helper, is_available]);
+
+  useEffect(() => {
+    const handle_online = () => set_is_connected(true);
+    const handle_offline = () => set_is_connected(false);
+
+    window.addEventListener('online', handle_online);
+    window.addEventListener('offline', handle_offline);
+
+    return () => {
+      window.removeEventListener('online', handle_online);
+      window.removeEventListener('offline', handle_offline);
+    };
+  }, []);
+
+  // Set by the server when it flipped the helper offline for inactivity
+  const presence_expired = is_helper && !is_available && !!user?.presence_expired_at;
+
+  return (
+    <PresenceContext.Provider value={{ is_connected, last_heartbeat_at, presence_expired }}>
+      {children}
+    </PresenceContext.Provider>
+  );
+}
+
+export function usePresence() {
+  const context = useContext(PresenceContext);
+  if (!context) {
+    throw new Error('usePresence must be used within PresenceProvider');
+  }
+  return context;
+}
@@ -0,0 +1,28 @@
+import { useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../services/firebase_client';
+import { PriceQuote } from '../types';
+
+export function usePricing() {
+  const [is_loading, set_is_loading] = useState(false);
+  const [error, set_error] = useState<string | null>(null);
+
+  const get_quote = async (category: string, urgency: string) => {
+    set_is_loading(true);
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'get_quote');
+      const result = await fn({ category, urgency });
+      return result.data as PriceQuote;
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to get a price quote');
+      throw err;
+    } finally {
+      set_is_loading(false);
+    }
+  };
+
+  return { get_quote, is_loading, error };
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../services/firebase_client';
+import { RequestStatus, SessionOutcome } from '../types';
+
+interface TransitionOptions {
+  reason?: string;
+  outcome?: SessionOutcome;
+}
+
+export function useRequests() {
+  const [is_loading, set_is_loading] = useState(false);
+  const [error, set_error] = useState<string | null>(null);
+
+  const claim_request = async (request_id: string) => {
+    set_is_loading(true);
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'claim_request');
+      await fn({ request_id });
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to claim request');
+      throw err;
+    } finally {
+      set_is_loading(false);
+    }
+  };
+
+  const transition_request = async (
+    request_id: string,
+    to: RequestStatus,
+    options: TransitionOptions = {}
+  ) => {
+    set_is_loading(true);
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'transition_request');
+      await fn({ request_id, to, ...options });
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to update request');
+      throw err;
+    } finally {
+      set_is_loading(false);
+    }
+  };
+
+  const cancel_request = async (request_id: string, reason?: string) => {
+    set_is_loading(true);
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'cancel_request');
+      const result = await fn({ request_id, reason });
+      return result.data as { success: boolean; cancellation_fee: number };
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to cancel request');
+      throw err;
+    } finally {
+      set_is_loading(false);
+    }
+  };
+
+  // The customer agrees with the helper's outcome, or disputes it
+  const confirm_completion = async (request_id: string, agree: boolean, reason?: string) => {
+    set_is_loading(true);
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'confirm_completion');
+      const result = await fn({ request_id, agree, reason });
+      return result.data as { success: boolean; status: RequestStatus; support_case_id?: string };
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to record your response');
+      throw err;
+    } finally {
+      set_is_loading(false);
+    }
+  };
+
+  return { claim_request, transition_request, cancel_request, confirm_completion, is_loading, error };
+}
@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  limit,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../services/firebase_client';
+import { useAuth } from './use_auth';
+import { Review } from '../types';
+
+export function useReviews() {
+  const [is_loading, set_is_loading] = useState(false);
+  const [error, set_error] = useState<string | null>(null);
+
+  const submit_review = async (request_id: string, rating: number, comment: string) => {
+    set_is_loading(true);
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'submit_review');
+      await fn({ request_id, rating, comment });
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to submit review');
+      throw err;
+    } finally {
+      set_is_loading(false);
+    }
+  };
+
+  return { submit_review, is_loading, error };
+}
+
+// The signed-in helper's most recent reviews, leaving out any a moderator
+// hid, as the rating average does
+export function useHelperReviews(max_reviews = 5) {
+  const { user } = useAuth();
+  const [reviews, set_reviews] = useState<Review[]>([]);
+
+  useEffect(() => {
+    if (!user || user.role !== 'helper') return;
+
+    const q = query(
+      collection(db, 'reviews'),
+      where('helper_id', '==', user.uid),
+      where('hidden', '==', false),
+      orderBy('created_at', 'desc'),
+      limit(max_reviews)
+    );
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        set_reviews(snapshot.docs.map((d) => ({ id: d.id, ...d.data() })) as Review[]);
+      },
+      (err) => console.error('Error loading reviews:', err)
+    );
+
+    return () => unsubscribe();
+  }, [user, max_reviews]);
+
+  return { reviews };
+}
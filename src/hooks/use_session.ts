@@ -1,55 +1,61 @@
 import { useState } from 'react';
 import { httpsCallable } from 'firebase/functions';
 import { functions } from '../services/firebase_client';
+import { ExtensionRequest, SessionBilling } from '../types';
 
-export function useZohoLens() {
+export function useSession() {
   const [is_loading, set_is_loading] = useState(false);
   const [error, set_error] = useState<string | null>(null);
 
-  const create_session = async (session_id: string) => {
+  const end_session = async (session_id: string) => {
     set_is_loading(true);
     set_error(null);
 
     try {
-      const fn = httpsCallable(functions, 'createZohoSession');
+      const fn = httpsCallable(functions, 'end_session');
       const result = await fn({ session_id });
-      return result.data as { technician_url: string; customer_join_url: string };
+      return (result.data as { billing: SessionBilling | null }).billing;
     } catch (err: unknown) {
       const error_obj = err as { message?: string };
-      set_error(error_obj.message || 'Failed to create session');
+      set_error(error_obj.message || 'Failed to end session');
       throw err;
     } finally {
       set_is_loading(false);
     }
   };
 
-  const send_sms = async (session_id: string) => {
+  const request_extension = async (session_id: string) => {
     set_is_loading(true);
+    set_error(null);
+
     try {
-      const fn = httpsCallable(functions, 'sendSessionSMS');
-      await fn({ session_id });
+      const fn = httpsCallable(functions, 'request_extension');
+      const result = await fn({ session_id });
+      return (result.data as { extension_request: ExtensionRequest }).extension_request;
     } catch (err: unknown) {
       const error_obj = err as { message?: string };
-      set_error(error_obj.message || 'Failed to send SMS');
+      set_error(error_obj.message || 'Failed to request more time');
       throw err;
     } finally {
       set_is_loading(false);
     }
   };
 
-  const end_session = async (session_id: string) => {
+  const respond_to_extension = async (session_id: string, approve: boolean) => {
     set_is_loading(true);
+    set_error(null);
+
     try {
-      const fn = httpsCallable(functions, 'endZohoSession');
-      await fn({ session_id });
+      const fn = httpsCallable(functions, 'respond_to_extension');
+      await fn({ session_id, approve });
     } catch (err: unknown) {
       const error_obj = err as { message?: string };
-      set_error(error_obj.message || 'Failed to end session');
+      set_error(error_obj.message || 'Failed to respond to extension');
       throw err;
     } finally {
       set_is_loading(false);
     }
   };
 
-  return { create_session, send_sms, end_session, is_loading, error };
+  return { end_session, request_extension, respond_to_extension, is_loading, error };
 }
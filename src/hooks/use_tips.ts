@@ -0,0 +1,39 @@
+import { useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../services/firebase_client';
+import { get_stripe } from '../services/stripe_client';
+import { TipStatus } from '../types';
+
+export function useTips() {
+  const [is_loading, set_is_loading] = useState(false);
+  const [error, set_error] = useState<string | null>(null);
+
+  const send_tip = async (request_id: string, amount: number) => {
+    set_is_loading(true);
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'create_tip');
+      const result = await fn({ request_id, amount });
+      const { status, client_secret } = result.data as { status: TipStatus; client_secret: string };
+
+      // Some cards ask the customer to authenticate again
+      if (status === 'requires_action') {
+        const stripe = await get_stripe();
+        const confirm_result = await stripe?.confirmCardPayment(client_secret);
+
+        if (confirm_result?.error) {
+          throw new Error(confirm_result.error.message || 'Card authentication failed');
+        }
+      }
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to send tip');
+      throw err;
+    } finally {
+      set_is_loading(false);
+    }
+  };
+
+  return { send_tip, is_loading, error };
+}
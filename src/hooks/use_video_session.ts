@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../services/firebase_client';
+import { app_config } from '../config/app_config';
+import { Session, VideoParticipantRole } from '../types';
+
+// Works with whichever video provider the backend is configured for
+export function useVideoSession() {
+  const [is_loading, set_is_loading] = useState(false);
+  const [error, set_error] = useState<string | null>(null);
+
+  // Creates the video room and the session and moves the request to
+  // in_session. Safe to retry; a started request returns its session.
+  const start_session = async (request_id: string, safety_checklist: string[]) => {
+    set_is_loading(true);
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'start_session');
+      const result = await fn({ request_id, safety_checklist });
+      return result.data as { session_id: string; provider: string };
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to start session');
+      throw err;
+    } finally {
+      set_is_loading(false);
+    }
+  };
+
+  const join_session = async (session_id: string) => {
+    set_is_loading(true);
+    set_error(null);
+
+    try {
+      const fn = httpsCallable(functions, 'get_video_participant_url');
+      const result = await fn({ session_id });
+      return result.data as { url: string; role: VideoParticipantRole };
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_error(error_obj.message || 'Failed to join session');
+      throw err;
+    } finally {
+      set_is_loading(false);
+    }
+  };
+
+  return { start_session, join_session, is_loading, error };
+}
+
+// Keeps the session's participant state fresh while it is live. Updates
+// arrive through the session document, so failures are only logged.
+export function useVideoStatusPolling(session: Session | null) {
+  const session_id = session?.id;
+  const is_live = Boolean(
+    session?.zoho_session_id &&
+    session.video_provider !== 'webrtc' &&
+    session.status !== 'ended'
+  );
+
+  useEffect(() => {
+    if (!session_id || !is_live) return;
+
+    const sync_status = () => {
+      httpsCallable(functions, 'sync_video_status')({ session_id }).catch((err) => {
+        console.error('Error syncing video status:', err);
+      });
+    };
+
+    sync_status();
+    const interval = setInterval(sync_status, app_config.video.status_poll_seconds * 1000);
+
+    return () => clearInterval(interval);
+  }, [session_id, is_live]);
+}
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  addDoc,
+  collection,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+} from 'firebase/firestore';
+import { db } from '../services/firebase_client';
+import { app_config } from '../config/app_config';
+import { CameraFacing, SignalingMessage, VideoParticipantRole } from '../types';
+
+// Peer-to-peer call for sessions on the built-in 'webrtc' video provider.
+// The helper always makes the offer; the customer announces itself with a
+// join message and answers whatever offer comes next. Every offer gets a
+// fresh ID so answers and candidates from a previous attempt (e.g. before
+// a reload) are ignored.
+export function useWebRtcCall(session_id: string, role: VideoParticipantRole, sender_id: string) {
+  const [local_stream, set_local_stream] = useState<MediaStream | null>(null);
+  const [remote_stream, set_remote_stream] = useState<MediaStream | null>(null);
+  const [connection_state, set_connection_state] = useState<RTCPeerConnectionState>('new');
+  // Customers film the problem, so they start on the rear camera
+  const [facing_mode, set_facing_mode] = useState<CameraFacing>(role === 'customer' ? 'environment' : 'user');
+  const [can_switch_camera, set_can_switch_camera] = useState(false);
+  const [error, set_error] = useState<string | null>(null);
+
+  const peer_ref = useRef<RTCPeerConnection | null>(null);
+  const stream_ref = useRef<MediaStream | null>(null);
+
+  useEffect(() => {
+    let is_active = true;
+    let unsubscribe = () => {};
+    let offer_id = '';
+    // Candidates can arrive before the description they belong to
+    const pending_candidates = new Map<string, RTCIceCandidateInit[]>();
+    const signaling = collection(db, 'sessions', session_id, 'signaling');
+
+    const send = (message: Omit<SignalingMessage, 'from' | 'sender_id' | 'created_at'>, message_id?: string) => {
+      const data = { ...message, from: role, sender_id, created_at: serverTimestamp() };
+      return message_id ? setDoc(doc(signaling, message_id), data) : addDoc(signaling, data);
+    };
+
+    const open_peer = (next_offer_id: string) => {
+      peer_ref.current?.close();
+
+      const peer = new RTCPeerConnection({ iceServers: app_config.webrtc.ice_servers });
+      offer_id = next_offer_id;
+
+      stream_ref.current?.getTracks().forEach((track) => peer.addTrack(track, stream_ref.current!));
+
+      peer.ontrack = (event) => set_remote_stream(event.streams[0]);
+      peer.onconnectionstatechange = () => set_connection_state(peer.connectionState);
+      peer.onicecandidate = (event) => {
+        if (event.candidate) {
+          send({ type: 'candidate', offer_id: next_offer_id, candidate: event.candidate.toJSON() });
+        }
+      };
+
+      peer_ref.current = peer;
+      set_connection_state(peer.connectionState);
+      return peer;
+    };
+
+    const flush_candidates = async (peer: RTCPeerConnection, for_offer_id: string) => {
+      const candidates = pending_candidates.get(for_offer_id) || [];
+      pending_candidates.delete(for_offer_id);
+
+      for (const candidate of candidates) {
+        await peer.addIceCandidate(candidate);
+      }
+    };
+
+    const make_offer = async () => {
+      const peer = open_peer(doc(signaling).id);
+      const next_offer_id = offer_id;
+      const offer = await peer.createOffer();
+
+      await peer.setLocalDescription(offer);
+      await send({ type: 'offer', offer_id: next_offer_id, sdp: offer.sdp }, next_offer_id);
+    };
+
+    const answer_offer = async (message: SignalingMessage) => {
+      const peer = open_peer(message.offer_id!);
+
+      await peer.setRemoteDescription({ type: 'offer', sdp: message.sdp });
+      await flush_candidates(peer, message.offer_id!);
+
+      const answer = await peer.createAnswer();
+      await peer.setLocalDescription(answer);
+      await send({ type: 'answer', offer_id: message.offer_id, sdp: answer.sdp });
+    };
+
+    const handle_message = async (message: SignalingMessage) => {
+      const peer = peer_ref.current;
+
+      if (message.type === 'join' && role === 'technician') {
+        await make_offer();
+      } else if (message.type === 'offer' && role === 'customer') {
+        await answer_offer(message);
+      } else if (message.type === 'answer' && peer && message.offer_id === offer_id) {
+        await peer.setRemoteDescription({ type: 'answer', sdp: message.sdp });
+        await flush_candidates(peer, offer_id);
+      } else if (message.type === 'candidate' && message.candidate) {
+        if (peer?.remoteDescription && message.offer_id === offer_id) {
+          await peer.addIceCandidate(message.candidate);
+        } else {
+          const queued = pending_candidates.get(message.offer_id!) || [];
+          pending_candidates.set(message.offer_id!, [...queued, message.candidate]);
+        }
+      }
+    };
+
+    const start = async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: facing_mode },
+          audio: true,
+        });
+
+        if (!is_active) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        stream_ref.current = stream;
+        set_local_stream(stream);
+
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        set_can_switch_camera(devices.filter((device) => device.kind === 'videoinput').length > 1);
+      } catch (err) {
+        console.error('Error opening camera:', err);
+        set_error('Could not access your camera or microphone. Check your browser permissions.');
+        return;
+      }
+
+      // Earlier messages belong to previous attempts, so only react to new ones
+      let is_initial = true;
+
+      unsubscribe = onSnapshot(signaling, (snapshot) => {
+        if (is_initial) {
+          is_initial = false;
+          (role === 'technician' ? make_offer() : send({ type: 'join' })).catch((err) => {
+            console.error('Error starting call:', err);
+            set_error('Failed to start the call');
+          });
+          return;
+        }
+
+        snapshot.docChanges().forEach((change) => {
+          const message = change.doc.data() as SignalingMessage;
+
+          if (change.type !== 'added' || message.from === role) {
+            return;
+          }
+
+          handle_message(message).catch((err) => console.error('Error handling signaling message:', err));
+        });
+      });
+    };
+
+    start();
+
+    return () => {
+      is_active = false;
+      unsubscribe();
+      peer_ref.current?.close();
+      peer_ref.current = null;
+      stream_ref.current?.getTracks().forEach((track) => track.stop());
+      stream_ref.current = null;
+    };
+    // facing_mode is left out on purpose: it only picks the starting camera
+  }, [session_id, role, sender_id]);
+
+  // Swaps the outgoing video track in place, so the call is not renegotiated
+  const switch_camera = useCallback(async () => {
+    const stream = stream_ref.current;
+    if (!stream) return;
+
+    const next_facing: CameraFacing = facing_mode === 'user' ? 'environment' : 'user';
+
+    try {
+      const camera_stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: next_facing } });
+      const next_track = camera_stream.getVideoTracks()[0];
+      const sender = peer_ref.current?.getSenders().find((s) => s.track?.kind === 'video');
+
+      await sender?.replaceTrack(next_track);
+
+      stream.getVideoTracks().forEach((track) => {
+        track.stop();
+        stream.removeTrack(track);
+      });
+      stream.addTrack(next_track);
+
+      set_local_stream(new MediaStream(stream.getTracks()));
+      set_facing_mode(next_facing);
+    } catch (err) {
+      console.error('Error switching camera:', err);
+      set_error('Could not switch camera');
+    }
+  }, [facing_mode]);
+
+  return {
+    local_stream,
+    remote_stream,
+    connection_state,
+    facing_mode,
+    can_switch_camera,
+    switch_camera,
+    error,
+  };
+}
@@ -2,7 +2,13 @@ import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Header } from '../../components/common/Header';
 import { LoadingSpinner } from '../../components/common/LoadingSpinner';
-import { useZohoLens } from '../../hooks/use_zoho_lens';
+import { HoldCountdown } from '../../components/common/HoldCountdown';
+import { ExtensionApproval } from '../../components/customer/ExtensionApproval';
+import { ParticipantStatus } from '../../components/common/ParticipantStatus';
+import { VideoFrame } from '../../components/common/VideoFrame';
+import { WebRtcCall } from '../../components/common/WebRtcCall';
+import { useVideoSession, useVideoStatusPolling } from '../../hooks/use_video_session';
+import { useSession } from '../../hooks/use_session';
 import { db } from '../../services/firebase_client';
 import { doc, onSnapshot } from 'firebase/firestore';
 import { Session } from '../../types';
@@ -10,12 +16,21 @@ import { Session } from '../../types';
 export function CustomerSession() {
   const { session_id } = useParams<{ session_id: string }>();
   const navigate = useNavigate();
-  const { join_session, end_session, is_loading: lens_loading, error: lens_error } = useZohoLens();
+  const { join_session, is_loading: lens_loading, error: lens_error } = useVideoSession();
+  const {
+    end_session,
+    respond_to_extension,
+    is_loading: session_loading,
+    error: session_error,
+  } = useSession();
 
   const [session, set_session] = useState<Session | null>(null);
   const [is_loading, set_is_loading] = useState(true);
   const [error, set_error] = useState('');
-  const [session_joined, set_session_joined] = useState(false);
+  const [video_url, set_video_url] = useState<string | null>(null);
+  const [webrtc_joined, set_webrtc_joined] = useState(false);
+
+  useVideoStatusPolling(session);
 
   useEffect(() => {
     if (!session_id) {
@@ -31,7 +46,7 @@ export function CustomerSession() {
           const session_data = { id: snapshot.id, ...snapshot.data() } as Session;
           set_session(session_data);
 
-          if (session_data.status === 'completed') {
+          if (session_data.status === 'ended') {
             navigate(`/customer/status/${session_data.request_id}`);
           }
         } else {
@@ -50,17 +65,32 @@ export function CustomerSession() {
   }, [session_id, navigate]);
 
   const handle_join_session = async () => {
-    if (!session?.zoho_session_url) {
-      set_error('Session link not available yet');
+    if (!session?.zoho_session_id) {
       return;
     }
 
+    // Built-in video runs in this page, so there is no link to fetch
+    if (session.video_provider === 'webrtc') {
+      set_webrtc_joined(true);
+      return;
+    }
+
+    // Failures are shown through lens_error so the join button stays usable
     try {
-      await join_session(session.zoho_session_url);
-      set_session_joined(true);
+      const { url } = await join_session(session.id);
+      set_video_url(url);
     } catch (err) {
       console.error('Error joining session:', err);
-      set_error('Failed to join session');
+    }
+  };
+
+  const handle_extension_response = async (approve: boolean) => {
+    if (!session_id) return;
+
+    try {
+      await respond_to_extension(session_id, approve);
+    } catch (err) {
+      console.error('Error responding to extension:', err);
     }
   };
 
@@ -112,6 +142,12 @@ export function CustomerSession() {
               Live
             </span>
           )}
+          {session.status === 'active' && session.ends_at && (
+            <span className="text-gray-300 text-sm">
+              <HoldCountdown expires_at={session.ends_at} expired_label="Time's up" /> left
+            </span>
+          )}
+          <ParticipantStatus video={session.video} />
         </div>
         <button
           onClick={handle_end_session}
@@ -121,8 +157,26 @@ export function CustomerSession() {
         </button>
       </div>
 
+      {session.extension_request?.status === 'pending' && (
+        <div className="fixed bottom-6 right-6 z-10">
+          <ExtensionApproval
+            extension_request={session.extension_request}
+            on_respond={handle_extension_response}
+            is_loading={session_loading}
+            error={session_error}
+          />
+        </div>
+      )}
+
       <div className="flex flex-col items-center justify-center min-h-[calc(100vh-60px)] px-4">
-        {!session_joined ? (
+        {webrtc_joined ? (
+          <WebRtcCall
+            session_id={session.id}
+            role="customer"
+            sender_id={session.customer_id}
+            peer_name={session.helper_name}
+          />
+        ) : !video_url ? (
           <div className="text-center">
             <div className="text-6xl mb-6">📹</div>
             <h2 className="text-2xl font-bold text-white mb-4">
@@ -141,13 +195,13 @@ export function CustomerSession() {
 
             <button
               onClick={handle_join_session}
-              disabled={lens_loading || !session.zoho_session_url}
+              disabled={lens_loading || !session.zoho_session_id}
               className="px-8 py-4 bg-primary-600 text-white text-lg font-semibold rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
             >
               {lens_loading ? 'Connecting...' : 'Join Video Session'}
             </button>
 
-            {!session.zoho_session_url && (
+            {!session.zoho_session_id && (
               <p className="text-gray-500 text-sm mt-4">
                 Waiting for helper to start the session...
               </p>
@@ -164,16 +218,7 @@ export function CustomerSession() {
             </div>
           </div>
         ) : (
-          <div className="w-full h-full">
-            <div id="zoho-lens-container" className="w-full h-[calc(100vh-120px)] bg-black rounded-lg">
-              <div className="flex items-center justify-center h-full">
-                <div className="text-center">
-                  <div className="animate-spin h-12 w-12 border-4 border-primary-500 border-t-transparent rounded-full mx-auto mb-4"></div>
-                  <p className="text-gray-400">Connecting to video session...</p>
-                </div>
-              </div>
-            </div>
-          </div>
+          <VideoFrame url={video_url} title={`Session with ${session.helper_name}`} />
         )}
       </div>
     </div>
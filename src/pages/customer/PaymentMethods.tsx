@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Header } from '../../components/common/Header';
+import { LoadingSpinner } from '../../components/common/LoadingSpinner';
+import { SavedCardList } from '../../components/customer/SavedCardList';
+import { usePaymentMethods } from '../../hooks/use_payment_methods';
+import { CardElement, useStripe, useElements } from '@stripe/react-stripe-js';
+
+export function PaymentMethods() {
+  const stripe = useStripe();
+  const elements = useElements();
+  const {
+    payment_methods,
+    refresh,
+    create_setup_intent,
+    detach_payment_method,
+    is_loading,
+    error: methods_error,
+  } = usePaymentMethods();
+
+  const [is_saving, set_is_saving] = useState(false);
+  const [error, set_error] = useState('');
+
+  const handle_save_card = async (e: React.FormEvent) => {
+    e.preventDefault();
+    set_error('');
+
+    if (!stripe || !elements) return;
+
+    const card_element = elements.getElement(CardElement);
+    if (!card_element) {
+      set_error('Card element not found');
+      return;
+    }
+
+    set_is_saving(true);
+
+    try {
+      const client_secret = await create_setup_intent();
+
+      const { error: setup_error } = await stripe.confirmCardSetup(client_secret, {
+        payment_method: { card: card_element },
+      });
+
+      if (setup_error) {
+        set_error(setup_error.message || 'Failed to save card');
+        return;
+      }
+
+      card_element.clear();
+      await refresh();
+    } catch (err) {
+      console.error('Error saving card:', err);
+      set_error('Failed to save card. Please try again.');
+    } finally {
+      set_is_saving(false);
+    }
+  };
+
+  const handle_remove = async (payment_method_id: string) => {
+    try {
+      await detach_payment_method(payment_method_id);
+    } catch (err) {
+      console.error('Error removing card:', err);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="max-w-md mx-auto px-4 py-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">
+          Payment Methods
+        </h1>
+
+        <div className="card mb-6">
+          <h3 className="font-semibold text-gray-900 mb-4">Saved Cards</h3>
+          {is_loading ? (
+            <LoadingSpinner size="sm" />
+          ) : payment_methods.length > 0 ? (
+            <SavedCardList payment_methods={payment_methods} on_remove={handle_remove} />
+          ) : (
+            <p className="text-sm text-gray-500">You have no saved cards yet.</p>
+          )}
+          {methods_error && (
+            <p className="text-sm text-red-600 mt-3">{methods_error}</p>
+          )}
+        </div>
+
+        <form onSubmit={handle_save_card} className="card">
+          <h3 className="font-semibold text-gray-900 mb-4">Add a Card</h3>
+
+          <div className="mb-4">
+            <label className="label">Card Information</label>
+            <div className="input-field">
+              <CardElement />
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm mb-4">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={!stripe || is_saving}
+            className="btn-primary w-full"
+          >
+            {is_saving ? 'Saving...' : 'Save Card'}
+          </button>
+
+          <p className="text-xs text-gray-500 text-center mt-4">
+            🔒 Cards are stored by Stripe, never on our servers.
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -5,8 +5,11 @@ import { LoadingSpinner } from '../../components/common/LoadingSpinner';
 import { usePayment } from '../../hooks/use_payment';
 import { db } from '../../services/firebase_client';
 import { doc, getDoc } from 'firebase/firestore';
-import { HelpRequest } from '../../types';
+import { CheckoutSummary, HelpRequest } from '../../types';
 import { app_config } from '../../config/app_config';
+import { PriceBreakdown } from '../../components/customer/PriceBreakdown';
+import { SavedCardList } from '../../components/customer/SavedCardList';
+import { usePaymentMethods } from '../../hooks/use_payment_methods';
 import { CardElement, useStripe, useElements } from '@stripe/react-stripe-js';
 
 export function PaymentPage() {
@@ -14,12 +17,19 @@ export function PaymentPage() {
   const navigate = useNavigate();
   const stripe = useStripe();
   const elements = useElements();
-  const { create_payment_intent, is_loading: payment_loading } = usePayment();
+  const { validate_promo_code, create_payment_intent, is_loading: payment_loading } = usePayment();
+  const { payment_methods } = usePaymentMethods();
 
   const [request, set_request] = useState<HelpRequest | null>(null);
   const [is_loading, set_is_loading] = useState(true);
   const [is_processing, set_is_processing] = useState(false);
   const [error, set_error] = useState('');
+  const [summary, set_summary] = useState<CheckoutSummary | null>(null);
+  const [promo_input, set_promo_input] = useState('');
+  const [promo_error, set_promo_error] = useState('');
+  // null means paying with a new card entered below
+  const [selected_method_id, set_selected_method_id] = useState<string | null>(null);
+  const [save_card, set_save_card] = useState(false);
 
   useEffect(() => {
     const fetch_request = async () => {
@@ -49,6 +59,46 @@ export function PaymentPage() {
     fetch_request();
   }, [request_id]);
 
+  // Default to the most recent saved card
+  useEffect(() => {
+    if (payment_methods.length > 0) {
+      set_selected_method_id((current) => current ?? payment_methods[0].id);
+    }
+  }, [payment_methods]);
+
+  // Preview the credit balance that will be applied before any promo code
+  useEffect(() => {
+    if (!request?.id || !request.amount) return;
+
+    validate_promo_code(request.id)
+      .then(set_summary)
+      .catch((err) => console.error('Error loading checkout summary:', err));
+  }, [request?.id, request?.amount]);
+
+  const handle_apply_promo = async () => {
+    if (!request || !promo_input.trim()) return;
+    set_promo_error('');
+
+    try {
+      set_summary(await validate_promo_code(request.id, promo_input));
+    } catch (err: unknown) {
+      const error_obj = err as { message?: string };
+      set_promo_error(error_obj.message || 'This promo code is not valid');
+    }
+  };
+
+  const handle_remove_promo = async () => {
+    if (!request) return;
+    set_promo_input('');
+    set_promo_error('');
+
+    try {
+      set_summary(await validate_promo_code(request.id));
+    } catch (err) {
+      console.error('Error loading checkout summary:', err);
+    }
+  };
+
   const handle_submit = async (e: React.FormEvent) => {
     e.preventDefault();
     set_error('');
@@ -57,30 +107,38 @@ export function PaymentPage() {
       return;
     }
 
-    const card_element = elements.getElement(CardElement);
-    if (!card_element) {
-      set_error('Card element not found');
-      return;
-    }
-
     set_is_processing(true);
 
     try {
-      const { error: pm_error, paymentMethod } = await stripe.createPaymentMethod({
-        type: 'card',
-        card: card_element,
-      });
+      let payment_method_id = selected_method_id;
 
-      if (pm_error) {
-        set_error(pm_error.message || 'Payment method creation failed');
-        set_is_processing(false);
-        return;
+      if (!payment_method_id) {
+        const card_element = elements.getElement(CardElement);
+        if (!card_element) {
+          set_error('Card element not found');
+          set_is_processing(false);
+          return;
+        }
+
+        const { error: pm_error, paymentMethod } = await stripe.createPaymentMethod({
+          type: 'card',
+          card: card_element,
+        });
+
+        if (pm_error) {
+          set_error(pm_error.message || 'Payment method creation failed');
+          set_is_processing(false);
+          return;
+        }
+
+        payment_method_id = paymentMethod.id;
       }
 
       const client_secret = await create_payment_intent(
         request.id,
-        request.amount,
-        paymentMethod.id
+        payment_method_id,
+        summary?.promo_code || undefined,
+        !selected_method_id && save_card
       );
 
       if (!client_secret) {
@@ -90,7 +148,7 @@ export function PaymentPage() {
       }
 
       const { error: confirm_error } = await stripe.confirmCardPayment(client_secret, {
-        payment_method: paymentMethod.id,
+        payment_method: payment_method_id,
       });
 
       if (confirm_error) {
@@ -132,6 +190,7 @@ export function PaymentPage() {
   if (!request) return null;
 
   const category = app_config.categories.find(c => c.value === request.category);
+  const amount_due = summary ? summary.amount_due : request.amount;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -152,6 +211,67 @@ export function PaymentPage() {
               ${(request.amount / 100).toFixed(2)}
             </span>
           </div>
+          {request.price_breakdown && (
+            <div className="mt-4 pt-4 border-t">
+              <PriceBreakdown line_items={request.price_breakdown} total={request.amount} />
+            </div>
+          )}
+          {summary && (summary.promo_discount > 0 || summary.credit_applied > 0) && (
+            <div className="mt-4 pt-4 border-t space-y-1 text-sm">
+              {summary.promo_discount > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>Promo {summary.promo_code}</span>
+                  <span>-${(summary.promo_discount / 100).toFixed(2)}</span>
+                </div>
+              )}
+              {summary.credit_applied > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>Account credit</span>
+                  <span>-${(summary.credit_applied / 100).toFixed(2)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-semibold text-gray-900">
+                <span>Due today</span>
+                <span>${(summary.amount_due / 100).toFixed(2)}</span>
+              </div>
+            </div>
+          )}
+          <div className="mt-4 pt-4 border-t">
+            <label className="label">Promo Code</label>
+            {summary?.promo_code ? (
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{summary.promo_code} applied</span>
+                <button
+                  type="button"
+                  onClick={handle_remove_promo}
+                  className="text-primary-600 hover:underline"
+                >
+                  Remove
+                </button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={promo_input}
+                  onChange={(e) => set_promo_input(e.target.value)}
+                  className="input-field flex-1"
+                  placeholder="Enter code"
+                />
+                <button
+                  type="button"
+                  onClick={handle_apply_promo}
+                  disabled={!promo_input.trim() || payment_loading}
+                  className="btn-secondary"
+                >
+                  Apply
+                </button>
+              </div>
+            )}
+            {promo_error && (
+              <p className="text-sm text-red-600 mt-2">{promo_error}</p>
+            )}
+          </div>
           <p className="text-xs text-gray-500 mt-3">
             Your card will be pre-authorized. Payment is only captured after
             your session is completed.
@@ -161,7 +281,31 @@ export function PaymentPage() {
         <form onSubmit={handle_submit} className="card">
           <h3 className="font-semibold text-gray-900 mb-4">Payment Details</h3>
 
-          <div className="mb-4">
+          {payment_methods.length > 0 && (
+            <div className="mb-4 space-y-2">
+              <SavedCardList
+                payment_methods={payment_methods}
+                selected_id={selected_method_id}
+                on_select={set_selected_method_id}
+              />
+              <label
+                className={`flex items-center p-3 border rounded-lg cursor-pointer ${
+                  selected_method_id === null ? 'border-primary-500 bg-primary-50' : 'border-gray-200'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="saved_card"
+                  checked={selected_method_id === null}
+                  onChange={() => set_selected_method_id(null)}
+                  className="mr-3"
+                />
+                <span className="font-medium">Use a new card</span>
+              </label>
+            </div>
+          )}
+
+          <div className={`mb-4 ${selected_method_id ? 'hidden' : ''}`}>
             <label className="label">Card Information</label>
             <div className="input-field">
               <CardElement
@@ -181,6 +325,15 @@ export function PaymentPage() {
                 }}
               />
             </div>
+            <label className="flex items-center mt-3 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={save_card}
+                onChange={(e) => set_save_card(e.target.checked)}
+                className="mr-2"
+              />
+              Save this card for next time
+            </label>
           </div>
 
           {error && (
@@ -194,7 +347,7 @@ export function PaymentPage() {
             disabled={!stripe || is_processing || payment_loading}
             className="btn-primary w-full"
           >
-            {is_processing ? 'Processing...' : `Pre-authorize $${(request.amount / 100).toFixed(2)}`}
+            {is_processing ? 'Processing...' : `Pre-authorize $${(amount_due / 100).toFixed(2)}`}
           </button>
 
           <p className="text-xs text-gray-500 text-center mt-4">
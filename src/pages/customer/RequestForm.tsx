@@ -1,25 +1,46 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Header } from '../../components/common/Header';
 import { CategorySelector } from '../../components/customer/CategorySelector';
 import { PhotoUpload } from '../../components/customer/PhotoUpload';
-import { app_config } from '../../config/app_config';
+import { UrgencySelector } from '../../components/customer/UrgencySelector';
+import { PriceBreakdown } from '../../components/customer/PriceBreakdown';
+import { app_config, UrgencyValue } from '../../config/app_config';
 import { db, storage } from '../../services/firebase_client';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { collection, addDoc, doc, updateDoc, serverTimestamp } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { useAuth } from '../../hooks/use_auth';
+import { usePricing } from '../../hooks/use_pricing';
+import { PriceQuote } from '../../types';
 
 export function RequestForm() {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { get_quote, is_loading: quote_loading, error: quote_error } = usePricing();
   const [category, set_category] = useState('');
+  const [urgency, set_urgency] = useState<UrgencyValue>('standard');
   const [description, set_description] = useState('');
   const [photos, set_photos] = useState<File[]>([]);
+  const [quote, set_quote] = useState<PriceQuote | null>(null);
   const [is_loading, set_is_loading] = useState(false);
   const [error, set_error] = useState('');
 
-  const selected_category = app_config.categories.find(c => c.value === category);
-  const base_price = selected_category?.base_price || 0;
+  useEffect(() => {
+    if (!category) return;
+
+    let is_current = true;
+    set_quote(null);
+
+    get_quote(category, urgency)
+      .then((result) => {
+        if (is_current) set_quote(result);
+      })
+      .catch((err) => console.error('Error fetching quote:', err));
+
+    return () => {
+      is_current = false;
+    };
+  }, [category, urgency]);
 
   const validate_form = (): boolean => {
     if (!category) {
@@ -66,17 +87,17 @@ export function RequestForm() {
         customer_id: user.uid,
         customer_name: user.display_name || 'Customer',
         category,
+        urgency,
         description,
         photo_urls: [],
         status: 'pending',
-        amount: base_price,
         created_at: serverTimestamp(),
         updated_at: serverTimestamp(),
       });
 
       if (photos.length > 0) {
         const photo_urls = await upload_photos(request_ref.id);
-        await addDoc(collection(db, 'requests'), {
+        await updateDoc(doc(db, 'requests', request_ref.id), {
           photo_urls,
         });
       }
@@ -130,15 +151,22 @@ export function RequestForm() {
             />
           </div>
 
+          <div>
+            <label className="label">How soon do you need help?</label>
+            <UrgencySelector value={urgency} on_change={set_urgency} />
+          </div>
+
           {category && (
             <div className="bg-primary-50 rounded-lg p-4">
-              <div className="flex justify-between items-center">
-                <span className="text-gray-700">Session Price</span>
-                <span className="text-xl font-bold text-primary-600">
-                  ${(base_price / 100).toFixed(2)}
-                </span>
-              </div>
-              <p className="text-xs text-gray-500 mt-1">
+              <p className="text-gray-700 font-medium mb-2">Session Price</p>
+              {quote ? (
+                <PriceBreakdown line_items={quote.line_items} total={quote.total} />
+              ) : quote_loading ? (
+                <p className="text-sm text-gray-500">Getting your quote...</p>
+              ) : (
+                <p className="text-sm text-red-600">{quote_error || 'Quote unavailable'}</p>
+              )}
+              <p className="text-xs text-gray-500 mt-2">
                 Payment is pre-authorized and only charged after session completion
               </p>
             </div>
@@ -2,9 +2,17 @@ import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Header } from '../../components/common/Header';
 import { LoadingSpinner } from '../../components/common/LoadingSpinner';
-import { db } from '../../services/firebase_client';
+import { HoldCountdown } from '../../components/common/HoldCountdown';
+import { CompletionConfirmation } from '../../components/customer/CompletionConfirmation';
+import { ReviewForm } from '../../components/customer/ReviewForm';
+import { TipSelector } from '../../components/customer/TipSelector';
+import { useRequests } from '../../hooks/use_requests';
+import { useReviews } from '../../hooks/use_reviews';
+import { useTips } from '../../hooks/use_tips';
+import { db, storage } from '../../services/firebase_client';
 import { doc, onSnapshot } from 'firebase/firestore';
-import { HelpRequest } from '../../types';
+import { getDownloadURL, ref } from 'firebase/storage';
+import { GuaranteeAction, GuaranteeDecision, HelpRequest } from '../../types';
 import { app_config } from '../../config/app_config';
 import { format_distance_to_now } from '../../utils/date_utils';
 
@@ -37,6 +45,20 @@ const STATUS_CONFIG = {
     bg: 'bg-green-50',
     icon: '📹',
   },
+  awaiting_confirmation: {
+    label: 'Session Finished',
+    description: 'Please confirm whether your issue was resolved.',
+    color: 'text-purple-600',
+    bg: 'bg-purple-50',
+    icon: '📝',
+  },
+  disputed: {
+    label: 'Under Review',
+    description: 'Our support team is reviewing your session. Your card has not been charged.',
+    color: 'text-orange-600',
+    bg: 'bg-orange-50',
+    icon: '🔎',
+  },
   completed: {
     label: 'Completed',
     description: 'Your session has been completed.',
@@ -53,12 +75,31 @@ const STATUS_CONFIG = {
   },
 };
 
+const GUARANTEE_MESSAGES: Record<GuaranteeAction, string> = {
+  charge: '',
+  partial: 'Your issue was not fully resolved, so you were only charged part of the price.',
+  void: 'Your issue was not resolved, so you have not been charged.',
+  credit: 'Your issue was not fully resolved, so we added account credit toward a follow-up session.',
+};
+
+const CANCELLABLE_STATUSES = ['pending', 'claimed', 'payment_pending'];
+
 export function RequestStatus() {
   const { request_id } = useParams<{ request_id: string }>();
   const navigate = useNavigate();
   const [request, set_request] = useState<HelpRequest | null>(null);
   const [is_loading, set_is_loading] = useState(true);
   const [error, set_error] = useState('');
+  const [show_cancel_confirm, set_show_cancel_confirm] = useState(false);
+  const [receipt_url, set_receipt_url] = useState<string | null>(null);
+  const { cancel_request, is_loading: is_cancelling, error: cancel_error } = useRequests();
+  const {
+    confirm_completion,
+    is_loading: is_confirming,
+    error: confirm_error,
+  } = useRequests();
+  const { submit_review, is_loading: is_reviewing, error: review_error } = useReviews();
+  const { send_tip, is_loading: is_tipping, error: tip_error } = useTips();
 
   useEffect(() => {
     if (!request_id) {
@@ -93,6 +134,56 @@ export function RequestStatus() {
     }
   }, [request, navigate]);
 
+  // Refetched when a refund reissues the receipt, since the old link goes stale
+  useEffect(() => {
+    if (!request?.receipt_path) return;
+
+    getDownloadURL(ref(storage, request.receipt_path))
+      .then(set_receipt_url)
+      .catch((err) => console.error('Error loading receipt:', err));
+  }, [request?.receipt_path, request?.receipt_issued_at?.toMillis()]);
+
+  const handle_cancel = async () => {
+    if (!request) return;
+
+    try {
+      await cancel_request(request.id);
+      set_show_cancel_confirm(false);
+    } catch (err) {
+      console.error('Error cancelling request:', err);
+    }
+  };
+
+  const handle_confirm = async (agree: boolean, reason?: string) => {
+    if (!request) return;
+
+    try {
+      await confirm_completion(request.id, agree, reason);
+    } catch (err) {
+      console.error('Error confirming completion:', err);
+    }
+  };
+
+  const handle_review = async (rating: number, comment: string) => {
+    if (!request) return;
+
+    try {
+      await submit_review(request.id, rating, comment);
+    } catch (err) {
+      console.error('Error submitting review:', err);
+    }
+  };
+
+  const handle_tip = async (amount: number) => {
+    if (!request) return;
+
+    try {
+      await send_tip(request.id, amount);
+    } catch (err) {
+      console.error('Error sending tip:', err);
+    }
+  };
+
   if (is_loading) {
     return <LoadingSpinner fullscreen message="Loading request..." />;
   }
@@ -119,6 +210,7 @@ export function RequestStatus() {
 
   const status_info = STATUS_CONFIG[request.status] || STATUS_CONFIG.pending;
   const category = app_config.categories.find(c => c.value === request.category);
+  const guarantee: GuaranteeDecision | undefined = request.guarantee;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -134,6 +226,48 @@ export function RequestStatus() {
           </p>
         </div>
 
+        {request.status === 'awaiting_confirmation' && (
+          <CompletionConfirmation
+            outcome={request.outcome}
+            confirmation_due_at={request.confirmation_due_at}
+            on_respond={handle_confirm}
+            is_loading={is_confirming}
+            error={confirm_error}
+          />
+        )}
+
+        {request.status === 'completed' && request.helper_id && (
+          request.reviewed ? (
+            <div className="bg-green-50 text-green-800 p-3 rounded-lg text-sm mb-6">
+              Thanks for rating your session!
+            </div>
+          ) : (
+            <ReviewForm
+              helper_name={request.helper_name}
+              on_submit={handle_review}
+              is_loading={is_reviewing}
+              error={review_error}
+            />
+          )
+        )}
+
+        {request.status === 'completed' && request.helper_id && request.payment_intent_id && (
+          request.tip_status && request.tip_status !== 'failed' ? (
+            <div className="bg-green-50 text-green-800 p-3 rounded-lg text-sm mb-6">
+              {request.tip_status === 'succeeded'
+                ? `Your $${((request.tip_amount ?? 0) / 100).toFixed(2)} tip was sent. Thank you!`
+                : 'Your tip is being processed.'}
+            </div>
+          ) : (
+            <TipSelector
+              helper_name={request.helper_name}
+              on_submit={handle_tip}
+              is_loading={is_tipping}
+              error={tip_error}
+            />
+          )
+        )}
+
         <div className="card">
           <h3 className="font-semibold text-gray-900 mb-4">Request Details</h3>
 
@@ -160,12 +294,62 @@ export function RequestStatus() {
               </span>
             </div>
 
+            {request.status === 'cancelled' && request.cancellation_fee > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Cancellation fee</span>
+                <span className="font-medium text-red-600">
+                  ${(request.cancellation_fee / 100).toFixed(2)}
+                </span>
+              </div>
+            )}
+
+            {(request.refunded_amount ?? 0) > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Refunded</span>
+                <span className="font-medium text-green-600">
+                  ${((request.refunded_amount ?? 0) / 100).toFixed(2)}
+                </span>
+              </div>
+            )}
+
             {request.helper_name && (
               <div className="flex justify-between">
                 <span className="text-gray-500">Helper</span>
                 <span className="font-medium">{request.helper_name}</span>
               </div>
             )}
+
+            {guarantee && guarantee.action !== 'charge' && (
+              <div className="bg-green-50 text-green-800 p-3 rounded-lg text-sm">
+                <p className="font-medium mb-1">Satisfaction guarantee</p>
+                <p>{GUARANTEE_MESSAGES[guarantee.action]}</p>
+                {guarantee.action === 'partial' && (
+                  <p className="mt-1">
+                    Charged ${(guarantee.charge_amount / 100).toFixed(2)} of $
+                    {(guarantee.base_amount / 100).toFixed(2)}
+                  </p>
+                )}
+                {guarantee.credit_amount > 0 && (
+                  <p className="mt-1">
+                    Credit added: ${(guarantee.credit_amount / 100).toFixed(2)}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {receipt_url && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Receipt</span>
+                <a
+                  href={receipt_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-primary-600 hover:underline"
+                >
+                  Download PDF
+                </a>
+              </div>
+            )}
           </div>
 
           <div className="mt-4 pt-4 border-t">
@@ -190,7 +374,28 @@ export function RequestStatus() {
           )}
         </div>
 
-        {request.status === 'claimed' && (
+        {request.status === 'claimed' && request.payment_status === 'failed' && (
+          <div className="mt-6 bg-red-50 rounded-lg p-4 text-center">
+            <p className="text-sm text-red-800">
+              Your last payment didn't go through. Please try again with another card.
+            </p>
+          </div>
+        )}
+
+        {(request.status === 'claimed' ||
+          (request.status === 'payment_pending' && request.payment_status !== 'authorized')) &&
+          request.hold_expires_at && (
+          <div className="mt-6 bg-orange-50 rounded-lg p-4 text-center">
+            <p className="text-sm text-orange-800">
+              Complete payment within{' '}
+              <HoldCountdown expires_at={request.hold_expires_at} className="font-semibold" />
+              {' '}to keep your helper. After that the job goes back to the queue.
+            </p>
+          </div>
+        )}
+
+        {(request.status === 'claimed' ||
+          (request.status === 'payment_pending' && request.payment_status !== 'authorized')) && (
           <button
             onClick={() => navigate(`/customer/payment/${request.id}`)}
             className="btn-primary w-full mt-6"
@@ -211,6 +416,50 @@ export function RequestStatus() {
             </p>
           </div>
         )}
+
+        {CANCELLABLE_STATUSES.includes(request.status) && (
+          <div className="mt-6">
+            {show_cancel_confirm ? (
+              <div className="card border-red-200">
+                <p className="font-medium text-gray-900 mb-1">Cancel this request?</p>
+                {request.helper_id && (
+                  <p className="text-sm text-gray-500 mb-3">
+                    A helper has already been assigned, so a cancellation fee may apply.
+                  </p>
+                )}
+
+                {cancel_error && (
+                  <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm mb-3">
+                    {cancel_error}
+                  </div>
+                )}
+
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => set_show_cancel_confirm(false)}
+                    className="btn-secondary flex-1"
+                  >
+                    Keep Request
+                  </button>
+                  <button
+                    onClick={handle_cancel}
+                    disabled={is_cancelling}
+                    className="flex-1 py-2 rounded-lg font-medium bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                  >
+                    {is_cancelling ? 'Cancelling...' : 'Yes, Cancel'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => set_show_cancel_confirm(true)}
+                className="w-full text-sm text-red-600 hover:text-red-700"
+              >
+                Cancel Request
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -4,3 +4,4 @@ export { RequestForm } from './RequestForm';
 export { RequestStatus } from './RequestStatus';
 export { PaymentPage } from './PaymentPage';
 export { CustomerSession } from './CustomerSession';
+export { PaymentMethods } from './PaymentMethods';
@@ -5,7 +5,12 @@ import { LoadingSpinner } from '../../components/common/LoadingSpinner';
 import { RequestCard } from '../../components/helper/RequestCard';
 import { AvailabilityToggle } from '../../components/helper/AvailabilityToggle';
 import { ClaimedJobs } from '../../components/helper/ClaimedJobs';
+import { RatingSummary } from '../../components/helper/RatingSummary';
 import { useAuth } from '../../hooks/use_auth';
+import { app_config } from '../../config/app_config';
+import { useRequests } from '../../hooks/use_requests';
+import { usePresence } from '../../hooks/use_presence';
+import { useHelperReviews } from '../../hooks/use_reviews';
 import { db } from '../../services/firebase_client';
 import {
   collection,
@@ -13,21 +18,23 @@ import {
   where,
   orderBy,
   onSnapshot,
-  doc,
-  updateDoc,
-  serverTimestamp,
 } from 'firebase/firestore';
 import { HelpRequest } from '../../types';
 
 export function HelperDashboard() {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { claim_request, error: claim_error } = useRequests();
+  const { is_connected, presence_expired } = usePresence();
+  const { reviews } = useHelperReviews();
   const [pending_requests, set_pending_requests] = useState<HelpRequest[]>([]);
   const [claimed_requests, set_claimed_requests] = useState<HelpRequest[]>([]);
   const [is_loading, set_is_loading] = useState(true);
-  const [is_available, set_is_available] = useState(true);
   const [claiming_id, set_claiming_id] = useState<string | null>(null);
 
+  const is_available = user?.is_available ?? false;
+  const payouts_enabled = user?.payouts_enabled ?? false;
+
   useEffect(() => {
     if (!user) return;
 
@@ -73,14 +80,7 @@ export function HelperDashboard() {
     set_claiming_id(request_id);
 
     try {
-      const request_ref = doc(db, 'requests', request_id);
-      await updateDoc(request_ref, {
-        status: 'claimed',
-        helper_id: user.uid,
-        helper_name: user.display_name || 'Helper',
-        claimed_at: serverTimestamp(),
-        updated_at: serverTimestamp(),
-      });
+      await claim_request(request_id);
     } catch (err) {
       console.error('Error claiming request:', err);
     } finally {
@@ -88,6 +88,16 @@ export function HelperDashboard() {
     }
   };
 
+  // While a job is in a targeted dispatch wave only the helpers it was
+  // offered to can see it; broadcast jobs are open to everyone.
+  const is_offered_to_me = (request: HelpRequest) =>
+    !!user && request.dispatch?.mode === 'targeted' &&
+    request.dispatch.offered_helper_ids.includes(user.uid);
+
+  const visible_requests = pending_requests.filter(
+    (request) => !request.dispatch || request.dispatch.mode === 'broadcast' || is_offered_to_me(request)
+  );
+
   const handle_start_session = async (request: HelpRequest) => {
     navigate(`/helper/session/${request.id}`);
   };
@@ -102,12 +112,47 @@ export function HelperDashboard() {
       <div className="max-w-4xl mx-auto px-4 py-6">
         <div className="flex items-center justify-between mb-6">
           <h1 className="text-2xl font-bold text-gray-900">Helper Dashboard</h1>
-          <AvailabilityToggle
-            is_available={is_available}
-            on_toggle={set_is_available}
-          />
+          <AvailabilityToggle />
         </div>
 
+        {is_available && !is_connected && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-800 text-sm">
+              Connection lost. If it isn't restored within {Math.round(app_config.presence.timeout_seconds / 60)} minutes
+              you'll be marked unavailable and stop receiving new jobs.
+            </p>
+          </div>
+        )}
+
+        {!payouts_enabled && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6 flex items-center justify-between">
+            <p className="text-blue-800 text-sm">
+              Set up payouts so we can pay you before you start claiming jobs.
+            </p>
+            <button
+              onClick={() => navigate('/helper/payouts')}
+              className="btn-primary text-sm"
+            >
+              Set Up Payouts
+            </button>
+          </div>
+        )}
+
+        {presence_expired && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+            <p className="text-yellow-800 text-sm">
+              You were marked unavailable because your dashboard was inactive.
+              Toggle your availability back on to keep receiving jobs.
+            </p>
+          </div>
+        )}
+
+        <RatingSummary
+          rating_average={user?.rating_average}
+          rating_count={user?.rating_count}
+          reviews={reviews}
+        />
+
         {claimed_requests.length > 0 && (
           <div className="mb-8">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">
@@ -122,7 +167,7 @@ export function HelperDashboard() {
 
         <div>
           <h2 className="text-lg font-semibold text-gray-900 mb-4">
-            Available Requests ({pending_requests.length})
+            Available Requests ({visible_requests.length})
           </h2>
 
           {!is_available && (
@@ -133,7 +178,13 @@ export function HelperDashboard() {
             </div>
           )}
 
-          {pending_requests.length === 0 ? (
+          {claim_error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm mb-4">
+              {claim_error}
+            </div>
+          )}
+
+          {visible_requests.length === 0 ? (
             <div className="card text-center py-12">
               <div className="text-4xl mb-4">📭</div>
               <h3 className="text-lg font-medium text-gray-900 mb-2">
@@ -145,13 +196,14 @@ export function HelperDashboard() {
             </div>
           ) : (
             <div className="space-y-4">
-              {pending_requests.map((request) => (
+              {visible_requests.map((request) => (
                 <RequestCard
                   key={request.id}
                   request={request}
                   on_claim={handle_claim}
                   is_claiming={claiming_id === request.id}
-                  disabled={!is_available}
+                  is_offered={is_offered_to_me(request)}
+                  disabled={!is_available || !payouts_enabled}
                 />
               ))}
             </div>
@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { Header } from '../../components/common/Header';
+import { LoadingSpinner } from '../../components/common/LoadingSpinner';
+import { useEarnings } from '../../hooks/use_earnings';
+import { EarningsPeriodType, Payment } from '../../types';
+import { app_config } from '../../config/app_config';
+import { format_date } from '../../utils/date_utils';
+import { download_csv } from '../../utils/csv_utils';
+
+type EarningsRowKind = 'job' | 'pending' | 'refund' | 'tip';
+
+interface EarningsRow {
+  id: string;
+  kind: EarningsRowKind;
+  payment: Payment;
+  label: string;
+  status: string;
+  // What the row means for the helper, negative for clawbacks
+  net_amount: number | null;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  transferred: 'Paid out',
+  held: 'On hold',
+  authorized: 'Awaiting capture',
+  succeeded: 'Paid out',
+};
+
+function format_cents(amount: number): string {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}$${(Math.abs(amount) / 100).toFixed(2)}`;
+}
+
+function category_label(category: string | undefined): string {
+  return app_config.categories.find((c) => c.value === category)?.label || 'Session';
+}
+
+// Payouts are the helper's per-job earnings; authorized charges are jobs
+// not captured yet; refunds are shown so clawbacks can be matched up.
+function build_rows(payments: Payment[]): EarningsRow[] {
+  return payments.flatMap((payment): EarningsRow[] => {
+    if (payment.type === 'payout') {
+      return [{
+        id: payment.id,
+        kind: 'job',
+        payment,
+        label: category_label(payment.category),
+        status: STATUS_LABELS[payment.status] || payment.status,
+        net_amount: payment.amount - (payment.reversed_amount || 0),
+      }];
+    }
+
+    if (payment.type === 'charge' && payment.status === 'authorized') {
+      return [{
+        id: payment.id,
+        kind: 'pending',
+        payment,
+        label: category_label(payment.category),
+        status: STATUS_LABELS.authorized,
+        net_amount: null,
+      }];
+    }
+
+    if (payment.type === 'tip' && payment.status === 'succeeded') {
+      return [{
+        id: payment.id,
+        kind: 'tip',
+        payment,
+        label: `Tip · ${category_label(payment.category)}`,
+        status: STATUS_LABELS.succeeded,
+        net_amount: payment.amount,
+      }];
+    }
+
+    if (payment.type === 'refund') {
+      return [{
+        id: payment.id,
+        kind: 'refund',
+        payment,
+        label: 'Customer refund',
+        status: payment.status,
+        net_amount: null,
+      }];
+    }
+
+    return [];
+  });
+}
+
+export function HelperEarnings() {
+  const [period_type, set_period_type] = useState<EarningsPeriodType>('week');
+  const {
+    totals,
+    periods,
+    payments,
+    has_more,
+    is_loading,
+    is_loading_more,
+    error,
+    load_more,
+    fetch_all_payments,
+  } = useEarnings(period_type);
+  const [is_exporting, set_is_exporting] = useState(false);
+  const [export_error, set_export_error] = useState<string | null>(null);
+
+  if (is_loading) {
+    return <LoadingSpinner size="lg" className="min-h-screen" />;
+  }
+
+  const rows = build_rows(payments);
+
+  // The history on screen is paged, so the export fetches everything
+  const handle_export = async () => {
+    set_is_exporting(true);
+    set_export_error(null);
+
+    let export_rows: EarningsRow[];
+
+    try {
+      export_rows = build_rows(await fetch_all_payments());
+    } catch (err) {
+      console.error('Error exporting earnings:', err);
+      set_export_error('Failed to export earnings');
+      return;
+    } finally {
+      set_is_exporting(false);
+    }
+
+    download_csv(
+      'earnings.csv',
+      ['date', 'type', 'description', 'request_id', 'status', 'gross', 'platform_fee', 'share', 'reversed', 'net'],
+      export_rows.map((row) => [
+        row.payment.created_at?.toDate().toISOString().slice(0, 10),
+        row.kind,
+        row.label,
+        row.payment.request_id,
+        row.status,
+        ((row.payment.gross_amount ?? row.payment.amount) / 100).toFixed(2),
+        row.kind === 'job' ? ((row.payment.platform_fee || 0) / 100).toFixed(2) : '',
+        row.kind === 'job' ? (row.payment.amount / 100).toFixed(2) : '',
+        row.kind === 'job' ? ((row.payment.reversed_amount || 0) / 100).toFixed(2) : '',
+        row.net_amount !== null ? (row.net_amount / 100).toFixed(2) : '',
+      ])
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Earnings</h1>
+          <button
+            onClick={handle_export}
+            disabled={rows.length === 0 || is_exporting}
+            className="btn-secondary"
+          >
+            {is_exporting ? 'Exporting...' : 'Export CSV'}
+          </button>
+        </div>
+
+        {(error || export_error) && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm mb-6">
+            {error || export_error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+          <div className="card">
+            <p className="text-sm text-gray-500">Earned</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {format_cents(totals.earned_amount - totals.reversed_amount)}
+            </p>
+          </div>
+          <div className="card">
+            <p className="text-sm text-gray-500">Pending</p>
+            <p className="text-2xl font-bold text-gray-900">{format_cents(totals.pending_amount)}</p>
+          </div>
+          <div className="card">
+            <p className="text-sm text-gray-500">Tips</p>
+            <p className="text-2xl font-bold text-gray-900">{format_cents(totals.tips_amount)}</p>
+          </div>
+          <div className="card">
+            <p className="text-sm text-gray-500">Refunded</p>
+            <p className="text-2xl font-bold text-gray-900">{format_cents(totals.reversed_amount)}</p>
+          </div>
+          <div className="card">
+            <p className="text-sm text-gray-500">Jobs</p>
+            <p className="text-2xl font-bold text-gray-900">{totals.jobs_count}</p>
+          </div>
+        </div>
+
+        <div className="card mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-gray-900">By {period_type}</h3>
+            <div className="flex gap-2">
+              {(['week', 'month'] as EarningsPeriodType[]).map((type) => (
+                <button
+                  key={type}
+                  onClick={() => set_period_type(type)}
+                  className={`px-3 py-1 text-sm rounded-full capitalize ${
+                    period_type === type
+                      ? 'bg-primary-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {periods.length === 0 ? (
+            <p className="text-sm text-gray-500">No earnings yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Period</th>
+                  <th className="py-2 text-right">Jobs</th>
+                  <th className="py-2 text-right">Earned</th>
+                  <th className="py-2 text-right">Tips</th>
+                  <th className="py-2 text-right">Refunded</th>
+                  <th className="py-2 text-right">Pending</th>
+                </tr>
+              </thead>
+              <tbody>
+                {periods.map((period) => (
+                  <tr key={period.id} className="border-b last:border-0">
+                    <td className="py-2">
+                      {period_type === 'week'
+                        ? `Week of ${format_date(period.period_start)}`
+                        : period.period_start.toDate().toLocaleDateString([], { month: 'long', year: 'numeric' })}
+                    </td>
+                    <td className="py-2 text-right">{period.jobs_count}</td>
+                    <td className="py-2 text-right">{format_cents(period.earned_amount - period.reversed_amount)}</td>
+                    <td className="py-2 text-right">{format_cents(period.tips_amount || 0)}</td>
+                    <td className="py-2 text-right">{format_cents(period.reversed_amount)}</td>
+                    <td className="py-2 text-right">{format_cents(period.pending_amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="card">
+          <h3 className="font-semibold text-gray-900 mb-4">Job History</h3>
+
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-500">Completed jobs will show up here.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Date</th>
+                  <th className="py-2">Job</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2 text-right">Price</th>
+                  <th className="py-2 text-right">Your share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.id} className="border-b last:border-0">
+                    <td className="py-2">{format_date(row.payment.created_at)}</td>
+                    <td className="py-2">{row.label}</td>
+                    <td className="py-2 text-gray-600 capitalize">{row.status}</td>
+                    <td className="py-2 text-right">
+                      {row.kind === 'refund'
+                        ? format_cents(-row.payment.amount)
+                        : format_cents(row.payment.gross_amount ?? row.payment.amount)}
+                    </td>
+                    <td className="py-2 text-right">
+                      {row.net_amount !== null ? format_cents(row.net_amount) : '—'}
+                      {(row.payment.reversed_amount || 0) > 0 && (
+                        <span className="block text-xs text-red-600">
+                          {format_cents(-(row.payment.reversed_amount || 0))} refunded
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {has_more && (
+            <button
+              onClick={load_more}
+              disabled={is_loading_more}
+              className="btn-secondary w-full mt-4"
+            >
+              {is_loading_more ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
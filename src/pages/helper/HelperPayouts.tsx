@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Header } from '../../components/common/Header';
+import { LoadingSpinner } from '../../components/common/LoadingSpinner';
+import { usePayouts } from '../../hooks/use_payouts';
+
+export function HelperPayouts() {
+  const navigate = useNavigate();
+  const { status, start_onboarding, open_dashboard, is_loading, error } = usePayouts();
+  const [is_redirecting, set_is_redirecting] = useState(false);
+
+  const handle_link = async (open_link: () => Promise<void>) => {
+    set_is_redirecting(true);
+
+    try {
+      await open_link();
+    } catch (err) {
+      console.error('Error opening Stripe link:', err);
+      set_is_redirecting(false);
+    }
+  };
+
+  if (is_loading) {
+    return <LoadingSpinner size="lg" className="min-h-screen" />;
+  }
+
+  const payouts_enabled = status?.payouts_enabled ?? false;
+  const has_started = !!status?.connected_account_id;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="max-w-md mx-auto px-4 py-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Payouts</h1>
+
+        <div className="card mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-gray-900">Status</h3>
+            <span
+              className={`px-2 py-1 text-xs rounded-full ${
+                payouts_enabled
+                  ? 'bg-green-100 text-green-800'
+                  : has_started
+                    ? 'bg-yellow-100 text-yellow-800'
+                    : 'bg-gray-100 text-gray-700'
+              }`}
+            >
+              {payouts_enabled ? 'Active' : has_started ? 'Incomplete' : 'Not set up'}
+            </span>
+          </div>
+
+          {payouts_enabled ? (
+            <p className="text-sm text-gray-600">
+              You're all set. Your share of each completed session is sent to your
+              bank account through Stripe.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-600">
+              We pay helpers through Stripe. Finish setting up your account to start
+              claiming jobs.
+            </p>
+          )}
+
+          {!payouts_enabled && status && status.requirements_due.length > 0 && (
+            <p className="text-sm text-yellow-700 mt-3">
+              Stripe still needs {status.requirements_due.length} more detail
+              {status.requirements_due.length === 1 ? '' : 's'} from you.
+            </p>
+          )}
+
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm mt-4">
+              {error}
+            </div>
+          )}
+
+          <div className="mt-6 space-y-2">
+            {!payouts_enabled && (
+              <button
+                onClick={() => handle_link(start_onboarding)}
+                disabled={is_redirecting}
+                className="btn-primary w-full"
+              >
+                {is_redirecting ? 'Redirecting...' : has_started ? 'Continue Setup' : 'Set Up Payouts'}
+              </button>
+            )}
+            {has_started && (
+              <button
+                onClick={() => handle_link(open_dashboard)}
+                disabled={is_redirecting}
+                className="btn-secondary w-full"
+              >
+                Open Stripe Dashboard
+              </button>
+            )}
+          </div>
+        </div>
+
+        <button
+          onClick={() => navigate('/helper/dashboard')}
+          className="text-sm text-gray-600 hover:text-gray-900"
+        >
+          ← Back to Dashboard
+        </button>
+      </div>
+    </div>
+  );
+}
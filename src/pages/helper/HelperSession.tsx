@@ -4,23 +4,43 @@ import { Header } from '../../components/common/Header';
 import { LoadingSpinner } from '../../components/common/LoadingSpinner';
 import { SafetyChecklist } from '../../components/helper/SafetyChecklist';
 import { SessionOutcome } from '../../components/helper/SessionOutcome';
-import { useZohoLens } from '../../hooks/use_zoho_lens';
+import { HoldCountdown } from '../../components/common/HoldCountdown';
+import { ParticipantStatus } from '../../components/common/ParticipantStatus';
+import { VideoFrame } from '../../components/common/VideoFrame';
+import { WebRtcCall } from '../../components/common/WebRtcCall';
+import { useVideoSession, useVideoStatusPolling } from '../../hooks/use_video_session';
+import { useRequests } from '../../hooks/use_requests';
+import { useSession } from '../../hooks/use_session';
 import { db } from '../../services/firebase_client';
-import { doc, onSnapshot, updateDoc, serverTimestamp, addDoc, collection } from 'firebase/firestore';
+import { doc, onSnapshot, updateDoc, serverTimestamp } from 'firebase/firestore';
 import { HelpRequest, Session, SessionOutcome as OutcomeType } from '../../types';
-import { useAuth } from '../../hooks/use_auth';
 
 type SessionStep = 'checklist' | 'session' | 'outcome';
 
 export function HelperSession() {
   const { request_id } = useParams<{ request_id: string }>();
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const { create_session, end_session, is_loading: lens_loading, error: lens_error } = useZohoLens();
+  const {
+    start_session,
+    join_session,
+    is_loading: lens_loading,
+    error: lens_error,
+  } = useVideoSession();
+  const { transition_request } = useRequests();
+  const {
+    end_session,
+    request_extension,
+    is_loading: session_loading,
+    error: session_error,
+  } = useSession();
 
   const [request, set_request] = useState<HelpRequest | null>(null);
   const [session, set_session] = useState<Session | null>(null);
   const [step, set_step] = useState<SessionStep>('checklist');
+  const [video_url, set_video_url] = useState<string | null>(null);
+  const [safety_checklist, set_safety_checklist] = useState<string[]>([]);
+
+  useVideoStatusPolling(session);
   const [is_loading, set_is_loading] = useState(true);
   const [is_processing, set_is_processing] = useState(false);
   const [error, set_error] = useState('');
@@ -36,20 +56,7 @@ export function HelperSession() {
       doc(db, 'requests', request_id),
       (snapshot) => {
         if (snapshot.exists()) {
-          const request_data = { id: snapshot.id, ...snapshot.data() } as HelpRequest;
-          set_request(request_data);
-
-          if (request_data.session_id) {
-            const session_unsubscribe = onSnapshot(
-              doc(db, 'sessions', request_data.session_id),
-              (session_snapshot) => {
-                if (session_snapshot.exists()) {
-                  set_session({ id: session_snapshot.id, ...session_snapshot.data() } as Session);
-                }
-              }
-            );
-            return () => session_unsubscribe();
-          }
+          set_request({ id: snapshot.id, ...snapshot.data() } as HelpRequest);
         } else {
           set_error('Request not found');
         }
@@ -65,47 +72,52 @@ export function HelperSession() {
     return () => unsubscribe();
   }, [request_id]);
 
-  const handle_checklist_complete = () => {
+  // start_session links the session to the request, so follow whichever
+  // session the request points at
+  const request_session_id = request?.session_id;
+
+  useEffect(() => {
+    if (!request_session_id) return;
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'sessions', request_session_id),
+      (snapshot) => {
+        if (snapshot.exists()) {
+          set_session({ id: snapshot.id, ...snapshot.data() } as Session);
+        }
+      },
+      (err) => console.error('Error fetching session:', err)
+    );
+
+    return () => unsubscribe();
+  }, [request_session_id]);
+
+  // The server ends sessions that run out of time
+  useEffect(() => {
+    if (session?.status === 'ended' && step === 'session') {
+      set_step('outcome');
+    }
+  }, [session?.status, step]);
+
+  const handle_checklist_complete = (items: string[]) => {
+    set_safety_checklist(items);
     set_step('session');
   };
 
   const handle_start_session = async () => {
-    if (!request || !user) return;
+    if (!request) return;
 
     set_is_processing(true);
     set_error('');
 
     try {
-      const zoho_response = await create_session(request.id);
-
-      const session_ref = await addDoc(collection(db, 'sessions'), {
-        request_id: request.id,
-        helper_id: user.uid,
-        helper_name: user.display_name || 'Helper',
-        customer_id: request.customer_id,
-        customer_name: request.customer_name,
-        zoho_session_id: zoho_response.session_id,
-        zoho_session_url: zoho_response.session_url,
-        status: 'active',
-        started_at: serverTimestamp(),
-        created_at: serverTimestamp(),
-      });
-
-      await updateDoc(doc(db, 'requests', request.id), {
-        status: 'in_session',
-        session_id: session_ref.id,
-        updated_at: serverTimestamp(),
-      });
+      // The session document arrives through the request listener
+      const { session_id, provider } = await start_session(request.id, safety_checklist);
 
-      set_session({
-        id: session_ref.id,
-        request_id: request.id,
-        helper_id: user.uid,
-        customer_id: request.customer_id,
-        zoho_session_id: zoho_response.session_id,
-        zoho_session_url: zoho_response.session_url,
-        status: 'active',
-      } as Session);
+      if (provider !== 'webrtc') {
+        const { url } = await join_session(session_id);
+        set_video_url(url);
+      }
     } catch (err) {
       console.error('Error starting session:', err);
       set_error('Failed to start session. Please try again.');
@@ -114,31 +126,55 @@ export function HelperSession() {
     }
   };
 
+  // After a reload the console link has to be fetched again
+  const handle_open_video = async () => {
+    if (!session) return;
+
+    try {
+      const { url } = await join_session(session.id);
+      set_video_url(url);
+    } catch (err) {
+      console.error('Error opening video console:', err);
+    }
+  };
+
   const handle_end_session = async () => {
+    if (session && session.status !== 'ended') {
+      try {
+        await end_session(session.id);
+      } catch (err) {
+        console.error('Error ending session:', err);
+        return;
+      }
+    }
     set_step('outcome');
   };
 
+  const handle_request_extension = async () => {
+    if (!session) return;
+
+    try {
+      await request_extension(session.id);
+    } catch (err) {
+      console.error('Error requesting extension:', err);
+    }
+  };
+
   const handle_outcome_submit = async (outcome: OutcomeType, notes: string) => {
     if (!session || !request) return;
 
     set_is_processing(true);
 
     try {
-      await end_session(session.id);
-
       await updateDoc(doc(db, 'sessions', session.id), {
-        status: 'completed',
         outcome,
         notes,
-        ended_at: serverTimestamp(),
-      });
-
-      await updateDoc(doc(db, 'requests', request.id), {
-        status: 'completed',
-        outcome,
         updated_at: serverTimestamp(),
       });
 
+      // Payment is captured once the customer confirms
+      await transition_request(request.id, 'awaiting_confirmation', { outcome });
+
       navigate('/helper/dashboard');
     } catch (err) {
       console.error('Error completing session:', err);
@@ -177,7 +213,10 @@ export function HelperSession() {
       <div className="min-h-screen bg-gray-50">
         <Header />
         <div className="max-w-md mx-auto px-4 py-8">
-          <SafetyChecklist on_complete={handle_checklist_complete} />
+          <SafetyChecklist
+            on_complete={handle_checklist_complete}
+            on_cancel={() => navigate('/helper/dashboard')}
+          />
         </div>
       </div>
     );
@@ -209,15 +248,43 @@ export function HelperSession() {
               Live
             </span>
           )}
+          {session?.status === 'active' && session.ends_at && (
+            <span className="text-gray-300 text-sm">
+              <HoldCountdown expires_at={session.ends_at} expired_label="Time's up" /> left
+            </span>
+          )}
+          <ParticipantStatus video={session?.video} />
+        </div>
+        <div className="flex items-center space-x-3">
+          {session?.status === 'active' && (
+            session.extension_request?.status === 'pending' ? (
+              <span className="text-yellow-300 text-sm">Waiting for customer to approve more time...</span>
+            ) : (
+              <button
+                onClick={handle_request_extension}
+                disabled={session_loading}
+                className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+              >
+                Request More Time
+              </button>
+            )
+          )}
+          <button
+            onClick={handle_end_session}
+            disabled={session_loading}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            End Session
+          </button>
         </div>
-        <button
-          onClick={handle_end_session}
-          className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-        >
-          End Session
-        </button>
       </div>
 
+      {(session_error || session?.extension_request?.status === 'declined') && (
+        <div className="bg-yellow-900/50 text-yellow-200 px-4 py-2 text-sm">
+          {session_error || 'The customer declined the extra time.'}
+        </div>
+      )}
+
       <div className="flex flex-col items-center justify-center min-h-[calc(100vh-60px)] px-4">
         {!session ? (
           <div className="text-center">
@@ -226,7 +293,7 @@ export function HelperSession() {
               Ready to Start Session?
             </h2>
             <p className="text-gray-400 mb-8 max-w-md">
-              This will create a Zoho Lens session and notify the customer to join.
+              This will create a video session and notify the customer to join.
               You'll be able to guide them using live video and AR annotations.
             </p>
 
@@ -252,21 +319,32 @@ export function HelperSession() {
               </div>
             </div>
           </div>
+        ) : session.video_provider === 'webrtc' ? (
+          <WebRtcCall
+            session_id={session.id}
+            role="technician"
+            sender_id={session.helper_id}
+            peer_name={request.customer_name}
+          />
+        ) : video_url ? (
+          <VideoFrame url={video_url} title={`Session with ${request.customer_name}`} />
         ) : (
-          <div className="w-full h-full">
-            <div id="zoho-lens-container" className="w-full h-[calc(100vh-120px)] bg-black rounded-lg">
-              <div className="flex items-center justify-center h-full">
-                <div className="text-center">
-                  <div className="animate-spin h-12 w-12 border-4 border-primary-500 border-t-transparent rounded-full mx-auto mb-4"></div>
-                  <p className="text-gray-400">
-                    Session active. Waiting for customer to join...
-                  </p>
-                  <p className="text-gray-500 text-sm mt-2">
-                    Session URL: {session.zoho_session_url}
-                  </p>
-                </div>
+          <div className="text-center">
+            <p className="text-gray-400 mb-4">
+              Your session is running. Open the video console to guide the customer.
+            </p>
+            {lens_error && (
+              <div className="bg-red-900/50 text-red-200 p-3 rounded-lg mb-4 max-w-md mx-auto">
+                {lens_error}
               </div>
-            </div>
+            )}
+            <button
+              onClick={handle_open_video}
+              disabled={lens_loading}
+              className="px-8 py-4 bg-primary-600 text-white text-lg font-semibold rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+            >
+              {lens_loading ? 'Connecting...' : 'Open Video Console'}
+            </button>
           </div>
         )}
       </div>
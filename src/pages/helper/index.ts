@@ -2,3 +2,5 @@ export { HelperLogin } from './HelperLogin';
 export { HelperSignup } from './HelperSignup';
 export { HelperDashboard } from './HelperDashboard';
 export { HelperSession } from './HelperSession';
+export { HelperPayouts } from './HelperPayouts';
+export { HelperEarnings } from './HelperEarnings';
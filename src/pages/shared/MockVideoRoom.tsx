@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+
+// Stand-in for the provider's session page when the backend runs with the
+// mock video provider. Shows the local camera so the flow can be walked
+// through without any external service.
+export function MockVideoRoom() {
+  const { video_session_id } = useParams<{ video_session_id: string }>();
+  const [search_params] = useSearchParams();
+  const role = search_params.get('role') === 'technician' ? 'technician' : 'customer';
+  const video_ref = useRef<HTMLVideoElement>(null);
+  const [camera_error, set_camera_error] = useState('');
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+
+    navigator.mediaDevices
+      ?.getUserMedia({ video: true, audio: false })
+      .then((media_stream) => {
+        stream = media_stream;
+        if (video_ref.current) {
+          video_ref.current.srcObject = media_stream;
+        }
+      })
+      .catch((err) => {
+        console.error('Error opening camera:', err);
+        set_camera_error('Camera unavailable');
+      });
+
+    return () => stream?.getTracks().forEach((track) => track.stop());
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center px-4 text-center">
+      <span className="px-2 py-1 bg-yellow-500 text-gray-900 text-xs font-semibold rounded-full mb-4">
+        Mock video session
+      </span>
+      <h1 className="text-xl font-bold text-white mb-1">
+        {role === 'technician' ? 'Helper console' : 'Customer view'}
+      </h1>
+      <p className="text-gray-400 text-sm mb-6">Session {video_session_id}</p>
+
+      {camera_error ? (
+        <p className="text-gray-500">{camera_error}</p>
+      ) : (
+        <video ref={video_ref} autoPlay playsInline muted className="w-full max-w-lg rounded-lg bg-black" />
+      )}
+    </div>
+  );
+}
@@ -1,2 +1,3 @@
 export { Home } from './Home';
 export { NotFound } from './NotFound';
+export { MockVideoRoom } from './MockVideoRoom';
@@ -1,3 +1,5 @@
 export * from './user_types';
 export * from './request_types';
 export * from './session_types';
+export * from './payment_types';
+export * from './review_types';
@@ -0,0 +1,72 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type PaymentType =
+  | 'charge'
+  | 'promo_redemption'
+  | 'credit_redemption'
+  | 'credit_grant'
+  | 'refund'
+  | 'payout'
+  | 'tip';
+
+export interface Payment {
+  id: string;
+  type: PaymentType;
+  request_id?: string;
+  // Not set on payouts
+  customer_id?: string;
+  helper_id?: string;
+  payment_intent_id?: string;
+  category?: string;
+  amount: number;
+  gross_amount?: number;
+  platform_fee?: number;
+  reversed_amount?: number;
+  status: string;
+  promo_code?: string | null;
+  created_at: Timestamp;
+}
+
+export type TipStatus = 'processing' | 'requires_action' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface EarningsTotals {
+  pending_amount: number;
+  // Includes tips
+  earned_amount: number;
+  reversed_amount: number;
+  tips_amount: number;
+  jobs_count: number;
+}
+
+export type EarningsPeriodType = 'week' | 'month';
+
+// Maintained by the on_payment_written function
+export interface EarningsPeriod extends EarningsTotals {
+  id: string;
+  period_type: EarningsPeriodType;
+  period_key: string;
+  period_start: Timestamp;
+}
+
+export interface SavedPaymentMethod {
+  id: string;
+  brand: string;
+  last4: string;
+  exp_month: number;
+  exp_year: number;
+}
+
+export interface ConnectStatus {
+  connected_account_id: string | null;
+  details_submitted: boolean;
+  payouts_enabled: boolean;
+  requirements_due: string[];
+}
+
+export interface CheckoutSummary {
+  amount: number;
+  promo_code: string | null;
+  promo_discount: number;
+  credit_applied: number;
+  amount_due: number;
+}
@@ -1,8 +1,65 @@
 import { Timestamp } from 'firebase/firestore';
-import { CategoryValue } from '../config/app_config';
+import { CategoryValue, UrgencyValue } from '../config/app_config';
+import { SessionOutcome } from './session_types';
+import { TipStatus } from './payment_types';
 
-export type RequestStatus = 'pending' | 'claimed' | 'in_session' | 'completed' | 'cancelled';
-export type PaymentStatus = 'pending' | 'authorized' | 'captured' | 'refunded' | 'failed' | 'cancelled';
+export type RequestStatus =
+  | 'pending'
+  | 'claimed'
+  | 'payment_pending'
+  | 'in_session'
+  | 'awaiting_confirmation'
+  | 'disputed'
+  | 'completed'
+  | 'cancelled';
+export type DispatchMode = 'targeted' | 'broadcast';
+export type RefundReason = 'unresolved' | 'helper_no_show' | 'dispute';
+
+export type PaymentStatus =
+  | 'pending'
+  | 'authorized'
+  | 'captured'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'failed'
+  | 'cancelled'
+  | 'disputed'
+  | 'dispute_lost';
+
+export type GuaranteeAction = 'charge' | 'partial' | 'void' | 'credit';
+
+// What the satisfaction guarantee decided when the job completed
+export interface GuaranteeDecision {
+  outcome: SessionOutcome;
+  action: GuaranteeAction;
+  base_amount: number;
+  charge_amount: number;
+  credit_amount: number;
+  helper_share: number;
+  refund_amount?: number;
+  decided_at: Timestamp;
+  applied_at?: Timestamp;
+}
+
+export interface PriceLineItem {
+  code: string;
+  label: string;
+  amount: number;
+}
+
+export interface PriceQuote {
+  category: CategoryValue;
+  urgency: UrgencyValue;
+  line_items: PriceLineItem[];
+  total: number;
+}
+
+export interface RequestDispatch {
+  mode: DispatchMode;
+  wave: number;
+  offered_helper_ids: string[];
+  next_wave_at?: Timestamp | null;
+}
 
 export interface Request {
   id: string;
@@ -11,18 +68,56 @@ export interface Request {
 
   description: string;
   category: CategoryValue;
+  urgency: UrgencyValue;
   photo_urls: string[];
 
   status: RequestStatus;
+  dispatch?: RequestDispatch;
 
   helper_id?: string;
+  helper_name?: string;
   claimed_at?: Timestamp;
+  hold_expires_at?: Timestamp;
   session_id?: string;
+  outcome?: SessionOutcome;
+  // Set when the helper submits the outcome; the job completes on its own
+  // if the customer has not responded by then
+  confirmation_due_at?: Timestamp;
+  confirmed_at?: Timestamp;
+  support_case_id?: string;
+  dispute_reason?: string;
+  guarantee?: GuaranteeDecision;
+  reviewed?: boolean;
+  tip_amount?: number;
+  tip_status?: TipStatus;
 
   payment_intent_id?: string;
   payment_status: PaymentStatus;
   amount: number;
+  // Amount to capture, including any extension time used
+  final_amount?: number;
+  price_breakdown?: PriceLineItem[];
+  refunded_amount?: number;
+  refund_reason?: RefundReason;
+  // Storage path of the PDF receipt, set once payment is captured and
+  // reissued after a refund
+  receipt_path?: string;
+  receipt_issued_at?: Timestamp;
+
+  cancelled_at?: Timestamp;
+  cancellation_reason?: string;
+  cancellation_fee?: number;
 
   created_at: Timestamp;
   updated_at: Timestamp;
 }
+
+export interface RequestEvent {
+  id: string;
+  from: RequestStatus;
+  to: RequestStatus;
+  actor_id: string;
+  actor_role: 'customer' | 'helper' | 'admin' | 'system';
+  reason: string;
+  created_at: Timestamp;
+}
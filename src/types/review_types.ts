@@ -0,0 +1,18 @@
+import { Timestamp } from 'firebase/firestore';
+import { SessionOutcome } from './session_types';
+
+export interface Review {
+  id: string;
+  request_id: string;
+  helper_id: string;
+  helper_name: string;
+  customer_id: string;
+  customer_name: string;
+  category: string;
+  outcome: SessionOutcome | null;
+  rating: number;
+  comment: string;
+  // Hidden by support; no longer counts towards the helper's rating
+  hidden: boolean;
+  created_at: Timestamp;
+}
@@ -2,14 +2,75 @@ import { Timestamp } from 'firebase/firestore';
 
 export type SessionStatus = 'created' | 'waiting' | 'active' | 'ended';
 export type SessionOutcome = 'resolved' | 'unresolved' | 'escalated';
+export type SessionEndReason = 'participant' | 'time_limit';
+export type VideoParticipantRole = 'technician' | 'customer';
+export type VideoSessionStatus = 'waiting' | 'active' | 'ended' | 'unknown';
+export type CameraFacing = 'user' | 'environment';
+export type SignalingMessageType = 'join' | 'offer' | 'answer' | 'candidate';
+export type ExtensionStatus = 'pending' | 'approving' | 'approved' | 'declined' | 'failed' | 'expired';
+
+export interface ExtensionRequest {
+  minutes: number;
+  amount: number;
+  status: ExtensionStatus;
+  requested_at: Timestamp;
+  responded_at?: Timestamp;
+  // Set while the customer's approval raises the card hold
+  approving_until?: Timestamp;
+}
+
+export interface VideoParticipantState {
+  joined_at: Timestamp | null;
+  left_at: Timestamp | null;
+  connected: boolean;
+}
+
+// The video provider's view of the session, synced by functions. Separate
+// from the top-level timing fields, which drive billing.
+export interface SessionVideoState {
+  status: VideoSessionStatus;
+  started_at: Timestamp | null;
+  ended_at: Timestamp | null;
+  // Seconds, once the video has ended
+  duration: number | null;
+  participants: Record<VideoParticipantRole, VideoParticipantState>;
+  synced_at: Timestamp;
+}
+
+// Written to sessions/{id}/signaling by the built-in WebRTC video
+export interface SignalingMessage {
+  type: SignalingMessageType;
+  from: VideoParticipantRole;
+  sender_id: string;
+  // The offer an answer or candidate belongs to
+  offer_id?: string;
+  sdp?: string;
+  candidate?: RTCIceCandidateInit;
+  created_at: Timestamp;
+}
+
+export interface SessionBilling {
+  included_minutes: number;
+  extension_minutes: number;
+  used_minutes: number;
+  overtime_minutes: number;
+  overtime_amount: number;
+  final_amount?: number;
+}
 
 export interface Session {
   id: string;
   request_id: string;
   customer_id: string;
   helper_id: string;
+  customer_name?: string;
+  helper_name?: string;
 
+  // Which backend hosts the video ('zoho', 'mock' or 'webrtc'); the ID is
+  // that provider's session ID despite the field name
+  video_provider?: string;
   zoho_session_id?: string;
+  video?: SessionVideoState;
   technician_url?: string;
   customer_join_url?: string;
 
@@ -18,9 +79,16 @@ export interface Session {
 
   sms_sent_at?: Timestamp;
   started_at?: Timestamp;
+  ends_at?: Timestamp;
   ended_at?: Timestamp;
+  end_reason?: SessionEndReason;
   duration?: number;
 
+  included_minutes?: number;
+  extension_minutes?: number;
+  extension_request?: ExtensionRequest;
+  billing?: SessionBilling;
+
   outcome?: SessionOutcome;
   notes?: string;
 
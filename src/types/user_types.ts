@@ -10,11 +10,21 @@ export interface User {
   role: UserRole;
   created_at: Timestamp;
   updated_at: Timestamp;
+  credit_balance?: number;
+  stripe_customer_id?: string;
 
   // Helper-specific
   is_available?: boolean;
+  last_seen_at?: Timestamp;
+  presence_expired_at?: Timestamp;
   specialties?: string[];
   completed_sessions?: number;
+  // Maintained from visible reviews; null until the first review
+  rating_average?: number | null;
+  rating_count?: number;
+  connected_account_id?: string;
+  payouts_enabled?: boolean;
+  payouts_details_submitted?: boolean;
 }
 
 export interface AuthState {
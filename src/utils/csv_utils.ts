@@ -0,0 +1,39 @@
+type CsvValue = string | number | null | undefined;
+
+function escape_csv_value(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+
+  const text = String(value);
+
+  // Spreadsheets run text starting with these as a formula, so a customer's
+  // description could otherwise execute in the helper's spreadsheet app.
+  // Plain numbers are left alone so negative amounts stay numeric.
+  if (/^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) {
+    return escape_csv_value(`'${text}`);
+  }
+
+  if (/[",\n\r]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
+
+export function to_csv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map((row) => row.map(escape_csv_value).join(','))
+    .join('\r\n');
+}
+
+export function download_csv(filename: string, headers: string[], rows: CsvValue[][]): void {
+  const blob = new Blob([to_csv(headers, rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
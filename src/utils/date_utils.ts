@@ -40,3 +40,13 @@ export function format_date(timestamp: Timestamp | undefined): string {
     day: 'numeric',
   });
 }
+
+export function format_countdown(remaining_ms: number): string {
+  if (remaining_ms <= 0) return '0:00';
+
+  const total_seconds = Math.floor(remaining_ms / 1000);
+  const minutes = Math.floor(total_seconds / 60);
+  const seconds = total_seconds % 60;
+
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
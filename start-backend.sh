@@ -37,6 +37,11 @@ echo "Press Ctrl+C to stop the emulators"
 echo "=================================================="
 echo ""
 
+# Host video sessions locally unless a provider is chosen explicitly, and
+# point links (including the mock video room) at the dev server
+export VIDEO_PROVIDER="${VIDEO_PROVIDER:-mock}"
+export APP_BASE_URL="${APP_BASE_URL:-http://localhost:18885}"
+
 # Start Firebase emulators with custom ports
 npx firebase-tools emulators:start \
     --only functions,firestore,auth,storage \